@@ -1,6 +1,13 @@
-import { describe, test, expect, beforeEach } from "vitest";
+import { describe, test, expect, expectTypeOf, beforeEach } from "vitest";
 
-import { RouteTree } from "./RouteTree";
+import {
+  deny,
+  MANIFEST_VERSION,
+  redirect,
+  RouteDecodeError,
+  RouteTree,
+  type RouteParams,
+} from "./RouteTree";
 
 describe("RadixRouter", () => {
   let router: RouteTree;
@@ -75,6 +82,29 @@ describe("RadixRouter", () => {
     expect(match.handler()).toEqual("pos hardware splat route");
   });
 
+  test("should capture the splat remainder in params", () => {
+    let match = router.match("/pos/hardware/store/product/1")!;
+    expect(match.params).toEqual({ "*": "store/product/1" });
+    expect(match.splat).toEqual(["store", "product", "1"]);
+
+    match = router.match("/connor/goes/to/store")!;
+    expect(match.params).toEqual({ "*": "connor/goes/to/store" });
+    expect(match.splat).toEqual(["connor", "goes", "to", "store"]);
+
+    match = router.match("/pos/hardware")!;
+    expect(match.splat).toBeUndefined();
+  });
+
+  test("should keep dynamic params when falling back to a splat route", () => {
+    router.addRoute("/docs/:version/intro", () => "docs intro");
+    router.addRoute("/docs/:version/$", () => "docs splat");
+
+    const match = router.match("/docs/v2/guides/routing")!;
+    expect(match.handler()).toEqual("docs splat");
+    expect(match.params).toEqual({ version: "v2", "*": "guides/routing" });
+    expect(match.splat).toEqual(["guides", "routing"]);
+  });
+
   test("should handle multiple dynamic parameters", () => {
     router.addRoute(
       "/users/:userId/posts/:postId",
@@ -197,6 +227,65 @@ describe("RadixRouter", () => {
     ).toThrow('Invalid route path "/end//": Double slashes are not allowed');
   });
 
+  test("should reject conflicting dynamic parameter names", () => {
+    router.addRoute("/users/:id", (params) => `user ${params!.id}`);
+
+    expect(() =>
+      router.addRoute("/users/:userId/posts", () => "user posts")
+    ).toThrow(
+      'Conflicting parameter names in route "/users/:userId/posts": ":userId" conflicts with ":id" declared by route "/users/:id"'
+    );
+    expect(() => router.addRoute("/a/:id/b/:id", () => "twice")).toThrow(
+      'Invalid route path "/a/:id/b/:id": Parameter ":id" is declared more than once'
+    );
+    expect(router.match("/users/1/posts")!.handler()).toEqual(
+      "catch all splat route"
+    );
+  });
+
+  test("should leave no nodes behind for rejected routes", () => {
+    const router = new RouteTree();
+    expect(() => router.addRoute("/users/:id/x/:id", () => "twice")).toThrow(
+      "declared more than once"
+    );
+    expect(() => router.addRoute("/g/:a.:b/:a", () => "twice")).toThrow(
+      "declared more than once"
+    );
+    expect(() => router.addRoute("/h/:lang?/:x/:lang", () => "twice")).toThrow(
+      "Conflicting parameter names"
+    );
+    expect(router.toVisualTree()).toEqual(new RouteTree().toVisualTree());
+
+    router.addRoute("/users/:userId", (params) => `user ${params!.userId}`);
+    router.addRoute("/g/:c.:d", () => "g");
+    const match = router.match("/users/1")!;
+    expect(match.handler(match.params)).toEqual("user 1");
+  });
+
+  test("should keep declared parameter names with allowParamAliases", () => {
+    const router = new RouteTree({ allowParamAliases: true });
+    router.addRoute("/users/:id", (params) => `user ${params!.id}`);
+    router.addRoute(
+      "/users/:userId/posts/:postId",
+      (params) => `user ${params!.userId} post ${params!.postId}`
+    );
+    router.addRoute("/users/:uid/$", () => "user files");
+
+    let match = router.match("/users/1")!;
+    expect(match.params).toEqual({ id: "1" });
+
+    match = router.match("/users/1/posts/2")!;
+    expect(match.params).toEqual({ userId: "1", postId: "2" });
+    expect(match.handler(match.params)).toEqual("user 1 post 2");
+
+    match = router.match("/users/1/files/a.txt")!;
+    expect(match.params).toEqual({ uid: "1", "*": "files/a.txt" });
+
+    expect(() => router.addRoute("/users/:postId/x/:id", () => "x")).toThrow(
+      'Conflicting parameter names in route "/users/:postId/x/:id": ":id" would share the name ":id" with another segment of the same route'
+    );
+  });
+
   test("should handle router with single splat route", () => {
     const router = new RouteTree();
     router.addRoute("/$", () => "root route");
@@ -218,3 +307,1934 @@ describe("RadixRouter", () => {
     expect(router.match("/p")).toBeUndefined();
   });
 });
+
+describe("Method-aware routing", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.get("/users/:id", (params) => `get user ${params!.id}`);
+    router.post("/users/:id", (params) => `update user ${params!.id}`);
+    router.delete("/users/:id", (params) => `delete user ${params!.id}`);
+    router.all("/health", () => "healthy");
+    router.addRoute("/reports", () => "reports", { method: "get" });
+  });
+
+  test("should match a handler per method", () => {
+    let match = router.match("GET", "/users/1")!;
+    expect(match.handler!(match.params)).toEqual("get user 1");
+    expect(match.allowedMethods).toEqual(["DELETE", "GET", "OPTIONS", "POST"]);
+
+    match = router.match("post", "/users/1")!;
+    expect(match.handler!(match.params)).toEqual("update user 1");
+
+    match = router.match("GET", "/reports")!;
+    expect(match.handler!()).toEqual("reports");
+  });
+
+  test("should match every method for routes without a method", () => {
+    expect(router.match("GET", "/health")!.handler!()).toEqual("healthy");
+    expect(router.match("PATCH", "/health")!.handler!()).toEqual("healthy");
+  });
+
+  test("should distinguish unknown paths from disallowed methods", () => {
+    expect(router.match("GET", "/unknown")).toBeUndefined();
+
+    expect(router.match("PUT", "/users/1")).toEqual({
+      params: { id: "1" },
+      allowedMethods: ["DELETE", "GET", "OPTIONS", "POST"],
+      reason: "method-not-allowed",
+    });
+  });
+
+  test("should answer OPTIONS from the allowed methods", () => {
+    expect(router.match("OPTIONS", "/users/1")).toEqual({
+      params: { id: "1" },
+      allowedMethods: ["DELETE", "GET", "OPTIONS", "POST"],
+      reason: "options",
+    });
+
+    router.addRoute("/users/:id", () => "custom options", {
+      method: "OPTIONS",
+    });
+    expect(router.match("OPTIONS", "/users/1")!.handler!()).toEqual(
+      "custom options"
+    );
+  });
+
+  test("should fall back to the GET handler for method-less matches", () => {
+    const match = router.match("/users/1")!;
+    expect(match.handler(match.params)).toEqual("get user 1");
+
+    router.post("/forms", () => "submit");
+    expect(router.match("/forms")).toBeUndefined();
+  });
+
+  test("should allow every method for routes without a method", () => {
+    const all = ["DELETE", "GET", "HEAD", "OPTIONS", "PATCH", "POST", "PUT"];
+    expect(router.match("GET", "/health")!.allowedMethods).toEqual(all);
+
+    router.addRoute("/users/:id", () => "any user");
+    expect(router.match("PUT", "/users/1")!.allowedMethods).toEqual(all);
+  });
+
+  test("should backtrack past method-only routes for method-less matches", () => {
+    const cached = new RouteTree({ cacheSize: 4 });
+    for (const tree of [router, cached]) {
+      tree.post("/files/:id", (params) => `upload ${params!.id}`);
+      tree.addRoute("/files/$", (params) => `file ${params!["*"]}`);
+    }
+
+    for (const matcher of [router, cached, router.compile()]) {
+      const match = matcher.match("/files/1")!;
+      expect(match.handler(match.params)).toEqual("file 1");
+
+      const post = matcher.match("POST", "/files/1")!;
+      expect(post.handler!(post.params)).toEqual("upload 1");
+      expect(matcher.match("/files/1")!.params).toEqual({ "*": "1" });
+    }
+    expect(
+      router.matchBranch("/files/1")!.map((route) => route.pathname)
+    ).toEqual(["/files/1"]);
+  });
+
+  test("should backtrack past routes without a handler for the method", () => {
+    const cached = new RouteTree({ cacheSize: 4 });
+    for (const tree of [router, cached]) {
+      tree.post("/files/:id", (params) => `upload ${params!.id}`);
+      tree.addRoute("/files/$", (params) => `file ${params!["*"]}`);
+      tree.put("/docs/:id", () => "put doc");
+      tree.patch("/docs/$", () => "patch docs");
+    }
+
+    for (const matcher of [router, cached, router.compile()]) {
+      const match = matcher.match("GET", "/files/1")!;
+      expect(match.handler!(match.params)).toEqual("file 1");
+      expect(match.params).toEqual({ "*": "1" });
+      const post = matcher.match("POST", "/files/1")!;
+      expect(post.handler!(post.params)).toEqual("upload 1");
+
+      // Without a handler for the method, the first route found answers
+      expect(matcher.match("GET", "/docs/1")).toEqual({
+        params: { id: "1" },
+        allowedMethods: ["OPTIONS", "PUT"],
+        reason: "method-not-allowed",
+      });
+      expect(matcher.match("PATCH", "/docs/1")!.handler!()).toEqual(
+        "patch docs"
+      );
+    }
+  });
+});
+
+describe("Route removal", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/", () => "root");
+    router.addRoute("/plugins/billing", () => "billing");
+    router.addRoute("/plugins/billing/:invoice", () => "invoice");
+    router.addRoute("/plugins/billing/files/$", () => "files");
+  });
+
+  test("should remove routes and prune empty nodes", () => {
+    expect(router.removeRoute("/plugins/billing/:invoice")).toBe(true);
+    expect(router.removeRoute("/plugins/billing/files/$")).toBe(true);
+    expect(router.match("/plugins/billing/1")).toBeUndefined();
+    expect(router.match("/plugins/billing/files/a.pdf")).toBeUndefined();
+    expect(router.match("/plugins/billing")!.handler()).toEqual("billing");
+
+    expect(router.removeRoute("/plugins/billing/")).toBe(true);
+    expect(router.toVisualTree()).toEqual(
+      "Route Tree Structure:\n└── / [✓]\n"
+    );
+  });
+
+  test("should report routes that are not registered", () => {
+    expect(router.removeRoute("/plugins")).toBe(false);
+    expect(router.removeRoute("/missing/path")).toBe(false);
+    expect(router.hasRoute("/plugins/billing")).toBe(true);
+  });
+
+  test("should remove a single method handler", () => {
+    router.get("/items", () => "list");
+    router.post("/items", () => "create");
+
+    expect(router.removeRoute("/items", "post")).toBe(true);
+    expect(router.hasRoute("/items", "POST")).toBe(false);
+    expect(router.hasRoute("/items", "GET")).toBe(true);
+    expect(router.match("POST", "/items")).toMatchObject({
+      reason: "method-not-allowed",
+    });
+  });
+
+  test("should look up route patterns with hasRoute", () => {
+    expect(router.hasRoute("/")).toBe(true);
+    expect(router.hasRoute("/plugins")).toBe(false);
+    expect(router.hasRoute("/plugins/billing/:id")).toBe(true);
+    expect(router.hasRoute("/plugins/billing/files/$")).toBe(true);
+    expect(router.hasRoute("/plugins/billing/42")).toBe(false);
+  });
+
+  test("should throw on duplicate registration when requested", () => {
+    expect(() =>
+      router.addRoute("/plugins/billing", () => "again", {
+        throwOnDuplicate: true,
+      })
+    ).toThrow(
+      'Duplicate route "/plugins/billing": A handler is already registered'
+    );
+    expect(router.match("/plugins/billing")!.handler()).toEqual("billing");
+
+    router.addRoute("/plugins/billing", () => "replaced");
+    expect(router.match("/plugins/billing")!.handler()).toEqual("replaced");
+
+    router.get("/items", () => "list");
+    expect(() =>
+      router.addRoute("/items", () => "list", {
+        method: "GET",
+        throwOnDuplicate: true,
+      })
+    ).toThrow('Duplicate route "/items": A GET handler is already registered');
+  });
+});
+
+describe("Typed handlers", () => {
+  test("should infer params from the route pattern", () => {
+    const router = new RouteTree();
+    router.addRoute("/users/:userId/posts/:postId", (params) => {
+      expectTypeOf(params).toEqualTypeOf<{ userId: string; postId: string }>();
+      return `${params.userId}/${params.postId}`;
+    });
+    router.get("/docs/:version/$", (params) => {
+      expectTypeOf(params).toEqualTypeOf<{ version: string; "*": string }>();
+      return params["*"];
+    });
+
+    let match = router.match("/users/1/posts/2")!;
+    expect(match.handler(match.params)).toEqual("1/2");
+
+    match = router.match("/docs/v1/a/b")!;
+    expect(match.handler(match.params)).toEqual("a/b");
+  });
+
+  test("should store any handler type", () => {
+    type Loader = (params: RouteParams) => Promise<number>;
+    const router = new RouteTree<Loader>();
+    router.addRoute("/items/:id", async (params) => Number(params.id));
+
+    const match = router.match("/items/42")!;
+    expectTypeOf(match.handler).toEqualTypeOf<Loader>();
+    expectTypeOf(match.params.id).toEqualTypeOf<string>();
+    return expect(match.handler(match.params)).resolves.toEqual(42);
+  });
+
+  test("should leave handlers without a params argument untyped", () => {
+    type Page = { title: string };
+    const router = new RouteTree<Page>();
+    router.addRoute("/about", { title: "About" });
+
+    expect(router.match("/about")!.handler).toEqual({ title: "About" });
+  });
+});
+
+describe("Reverse routing", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/", () => "root", { name: "home" });
+    router.addRoute("/users/:id", () => "user", { name: "user" });
+    router.get("/users/:id/posts/:postId", () => "post", { name: "post" });
+    router.addRoute("/docs/:version/$", () => "docs", { name: "docs" });
+  });
+
+  test("should build URLs from named routes", () => {
+    expect(router.href("home")).toEqual("/");
+    expect(router.href("user", { id: 42 })).toEqual("/users/42");
+    expect(router.href("post", { id: "1", postId: "2" })).toEqual(
+      "/users/1/posts/2"
+    );
+    expect(router.href("docs", { version: "v2", "*": "guides/a b" })).toEqual(
+      "/docs/v2/guides/a%20b"
+    );
+  });
+
+  test("should percent-encode param values", () => {
+    expect(router.href("user", { id: "John Doe/ü" })).toEqual(
+      "/users/John%20Doe%2F%C3%BC"
+    );
+  });
+
+  test("should append a query string", () => {
+    expect(
+      router.href(
+        "user",
+        { id: "1" },
+        { query: { tab: "posts", tag: ["a&b", "c"], empty: undefined } }
+      )
+    ).toEqual("/users/1?tab=posts&tag=a%26b&tag=c");
+    expect(router.href("home", {}, { query: {} })).toEqual("/");
+  });
+
+  test("should reject missing, extra and unknown params", () => {
+    expect(() => router.href("post", { id: "1" })).toThrow(
+      'Missing param "postId" for route "post" ("/users/:id/posts/:postId")'
+    );
+    expect(() => router.href("user", { id: "1", extra: "x" })).toThrow(
+      'Unexpected param "extra" for route "user" ("/users/:id")'
+    );
+    expect(() => router.href("missing")).toThrow(
+      'Unknown route name "missing"'
+    );
+  });
+
+  test("should reject a name used by another route", () => {
+    expect(() =>
+      router.addRoute("/people/:id", () => "people", { name: "user" })
+    ).toThrow(
+      'Duplicate route name "user": Already used by route "/users/:id"'
+    );
+    expect(router.match("/people/1")).toBeUndefined();
+
+    router.post("/users/:id", () => "update user", { name: "user" });
+    expect(router.href("user", { id: 1 })).toEqual("/users/1");
+  });
+
+  test("should forget names of removed routes", () => {
+    router.removeRoute("/users/:id");
+    expect(() => router.href("user", { id: 1 })).toThrow(
+      'Unknown route name "user"'
+    );
+    expect(router.href("post", { id: 1, postId: 2 })).toEqual(
+      "/users/1/posts/2"
+    );
+  });
+});
+
+describe("Optional segments and constraints", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute(
+      "/:lang?/docs",
+      (params) => `docs ${params.lang ?? "en"}`,
+      { name: "docs" }
+    );
+    router.addRoute("/users/:id<int>", (params) => `user #${params.id}`);
+    router.addRoute("/users/:slug", (params) => `user ${params.slug}`);
+    router.addRoute("/orders/:id(\\d+)", () => "order", { name: "order" });
+    router.addRoute("/orders/$", () => "orders splat");
+    router.addRoute("/tasks/:status<open|closed>", () => "tasks");
+  });
+
+  test("should match with and without optional segments", () => {
+    let match = router.match("/docs")!;
+    expect(match.params).toEqual({});
+    expect(match.handler(match.params)).toEqual("docs en");
+
+    match = router.match("/de/docs")!;
+    expect(match.params).toEqual({ lang: "de" });
+    expect(match.handler(match.params)).toEqual("docs de");
+  });
+
+  test("should fall through when a constraint fails", () => {
+    let match = router.match("/users/42")!;
+    expect(match.params).toEqual({ id: "42" });
+    expect(match.values).toEqual({ id: 42 });
+    expect(match.handler(match.params)).toEqual("user #42");
+
+    const compiled = router.compile();
+    expect(compiled.match("/users/42")!.values).toEqual({ id: 42 });
+    expect(compiled.match("/orders/17")!.values).toEqual({ id: "17" });
+
+    match = router.match("/users/connor")!;
+    expect(match.params).toEqual({ slug: "connor" });
+
+    expect(router.match("/orders/17")!.handler()).toEqual("order");
+    expect(router.match("/orders/abc")!.handler()).toEqual("orders splat");
+
+    expect(router.match("/tasks/open")!.params).toEqual({ status: "open" });
+    expect(router.match("/tasks/pending")).toBeUndefined();
+  });
+
+  test("should infer typed params", () => {
+    router.addRoute("/items/:id<int>/:kind<a|b>/:lang?", (params) => {
+      expectTypeOf(params).toEqualTypeOf<{
+        id: number;
+        kind: "a" | "b";
+        lang?: string;
+      }>();
+      return String(params.id);
+    });
+  });
+
+  test("should build URLs for optional and constrained params", () => {
+    expect(router.href("docs")).toEqual("/docs");
+    expect(router.href("docs", { lang: "fr" })).toEqual("/fr/docs");
+    expect(router.href("order", { id: 5 })).toEqual("/orders/5");
+    expect(() => router.href("order", { id: "x" })).toThrow(
+      'Invalid param "id" for route "order" ("/orders/:id(\\d+)"): "x" does not satisfy (\\d+)'
+    );
+  });
+
+  test("should look up and remove every optional variant", () => {
+    expect(router.hasRoute("/:lang?/docs")).toBe(true);
+    expect(router.hasRoute("/users/:id<int>")).toBe(true);
+    expect(router.hasRoute("/users/:id<uuid>")).toBe(false);
+
+    expect(router.removeRoute("/:lang?/docs")).toBe(true);
+    expect(router.match("/docs")).toBeUndefined();
+    expect(router.match("/de/docs")).toBeUndefined();
+
+    expect(router.removeRoute("/users/:id<int>")).toBe(true);
+    expect(router.match("/users/42")!.params).toEqual({ slug: "42" });
+  });
+});
+
+describe("Mixed segments", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/files/:name.:ext", () => "file", { name: "file" });
+    router.addRoute("/files/:name(.+).tar.gz", () => "tarball");
+    router.addRoute("/files/readme.md", () => "readme");
+    router.addRoute("/files/:path", () => "plain file");
+    router.addRoute("/@:username", () => "profile", { name: "profile" });
+    router.addRoute("/v:major<int>.:minor<int>", () => "version");
+  });
+
+  test("should match literal prefixes, suffixes and several params", () => {
+    let match = router.match("/files/report.pdf")!;
+    expect(match.handler()).toEqual("file");
+    expect(match.params).toEqual({ name: "report", ext: "pdf" });
+
+    match = router.match("/@connor")!;
+    expect(match.handler()).toEqual("profile");
+    expect(match.params).toEqual({ username: "connor" });
+
+    match = router.match("/v2.10")!;
+    expect(match.params).toEqual({ major: "2", minor: "10" });
+    expect(match.values).toEqual({ major: 2, minor: 10 });
+    expect(router.compile().match("/v2.10")!.values).toEqual({
+      major: 2,
+      minor: 10,
+    });
+    expect(router.match("/v2.x")).toBeUndefined();
+  });
+
+  test("should prefer static, then most specific mixed, then dynamic", () => {
+    expect(router.match("/files/readme.md")!.handler()).toEqual("readme");
+
+    const match = router.match("/files/backup.tar.gz")!;
+    expect(match.handler()).toEqual("tarball");
+    expect(match.params).toEqual({ name: "backup" });
+
+    expect(router.match("/files/notes")!.handler()).toEqual("plain file");
+  });
+
+  test("should keep legacy param names containing dots", () => {
+    router.addRoute("/posts/:post.id", () => "post");
+    expect(router.match("/posts/1.2")!.params).toEqual({ "post.id": "1.2" });
+
+    // A constraint ends the name, so literal text may follow it
+    router.addRoute("/posts/:slug<a|b>.html", (params) => {
+      expectTypeOf(params).toEqualTypeOf<{ slug: "a" | "b" }>();
+      return "html post";
+    });
+    expect(router.match("/posts/a.html")!.params).toEqual({ slug: "a" });
+  });
+
+  test("should reject conflicting names and adjacent params", () => {
+    expect(() => router.addRoute("/@:handle", () => "handle")).toThrow(
+      'Conflicting parameter names in route "/@:handle": ":handle" conflicts with ":username" declared by route "/@:username"'
+    );
+    expect(() => router.addRoute("/:a:b", () => "adjacent")).toThrow(
+      'Invalid route path "/:a:b": Parameters in ":a:b" must be separated by literal text'
+    );
+  });
+
+  test("should infer typed params", () => {
+    router.addRoute("/img/:name.:width<int>x:height<int>.png", (params) => {
+      expectTypeOf(params).toEqualTypeOf<{
+        name: string;
+        width: number;
+        height: number;
+      }>();
+      return params.name;
+    });
+    router.addRoute("/@:username/files/:file.:ext", (params) => {
+      expectTypeOf(params).toEqualTypeOf<{
+        username: string;
+        file: string;
+        ext: string;
+      }>();
+      return params.username;
+    });
+  });
+
+  test("should build, look up and remove mixed routes", () => {
+    expect(router.href("file", { name: "a b", ext: "txt" })).toEqual(
+      "/files/a%20b.txt"
+    );
+    expect(router.href("profile", { username: "connor" })).toEqual("/@connor");
+
+    expect(router.hasRoute("/files/:x.:y")).toBe(true);
+    expect(router.removeRoute("/files/:name.:ext")).toBe(true);
+    expect(router.match("/files/report.pdf")!.handler()).toEqual("plain file");
+  });
+
+  test("should render mixed segments in the visual tree", () => {
+    const tree = new RouteTree();
+    tree.addRoute("/files/:name.:ext", () => "file");
+    tree.addRoute("/files/:id<int>", () => "by id");
+
+    expect(tree.toVisualTree()).toEqual(
+      [
+        "Route Tree Structure:",
+        "└── /",
+        "    └── /files",
+        "        ├── /files/:<name>.:<ext> [✓]",
+        "        └── /files/:<id><int> [✓]",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("URL matching", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/search", () => "search");
+    router.addRoute("/users/:name", (params) => `user ${params.name}`);
+    router.addRoute("/files/$", () => "files");
+  });
+
+  test("should strip and parse the query and fragment", () => {
+    const match = router.match("/search?q=route+tree&tag=a&tag=b#results")!;
+    expect(match.handler()).toEqual("search");
+    expect(match.query).toEqual({ q: "route tree", tag: ["a", "b"] });
+    expect(match.hash).toEqual("results");
+
+    expect(router.match("/search#top")!.hash).toEqual("top");
+    expect(router.match("/search")!.query).toEqual({});
+  });
+
+  test("should accept full URL strings and URL objects", () => {
+    expect(router.match("https://example.com/search?q=1")!.query).toEqual({
+      q: "1",
+    });
+    expect(
+      router.match(new URL("https://example.com/users/ada"))!.params
+    ).toEqual({ name: "ada" });
+    expect(router.match("GET", "https://example.com/search")).toBeDefined();
+  });
+
+  test("should percent-decode params", () => {
+    expect(router.match("/users/John%20Doe")!.params).toEqual({
+      name: "John Doe",
+    });
+  });
+
+  test("should never split segments on encoded slashes", () => {
+    expect(router.match("/users/a%2Fb")!.params).toEqual({ name: "a/b" });
+
+    const match = router.match("/files/docs/a%2Fb.txt")!;
+    expect(match.splat).toEqual(["docs", "a/b.txt"]);
+  });
+
+  test("should throw a typed error for malformed encoding", () => {
+    expect(() => router.match("/users/%E0%A4%A")).toThrow(RouteDecodeError);
+  });
+});
+
+describe("Matching options", () => {
+  test("should report the canonical path of a non-canonical request", () => {
+    const router = new RouteTree();
+    router.addRoute("/users/:id", () => "user");
+
+    expect(router.match("/users/1")!.canonicalPath).toBeUndefined();
+    expect(router.match("/users/1/")!.canonicalPath).toBe("/users/1");
+    expect(router.match("//users//1")!.canonicalPath).toBe("/users/1");
+  });
+
+  test("should match static segments case-insensitively", () => {
+    const router = new RouteTree({ caseSensitive: false });
+    router.addRoute("/Users/:name", () => "user");
+
+    const match = router.match("/users/Ada/")!;
+    expect(match.params).toEqual({ name: "Ada" });
+    expect(match.canonicalPath).toBe("/Users/Ada");
+    expect(router.hasRoute("/USERS/:name")).toBe(true);
+    expect(new RouteTree().match("/users/Ada")).toBeUndefined();
+  });
+
+  test("should keep trailing slashes significant in strict mode", () => {
+    const router = new RouteTree({ strictTrailingSlash: true });
+    router.addRoute("/docs", () => "docs");
+    router.addRoute("/docs/", () => "docs index");
+    router.addRoute("/users/:id", () => "user");
+
+    expect(router.match("/docs")!.handler()).toBe("docs");
+    expect(router.match("/docs/")!.handler()).toBe("docs index");
+    expect(router.match("/users/1/")).toBeUndefined();
+  });
+
+  test("should only collapse repeated slashes when mergeSlashes is on", () => {
+    const router = new RouteTree({ mergeSlashes: false });
+    router.addRoute("/users/:id", () => "user");
+    router.addRoute("/files/$", () => "files");
+
+    expect(router.match("/users//1")).toBeUndefined();
+    expect(router.match("/files//a")).toBeUndefined();
+    expect(router.match("/users/1")).toBeDefined();
+  });
+
+  test("should report the canonical path of method-aware matches", () => {
+    const router = new RouteTree({ caseSensitive: false });
+    router.get("/Files/$", () => "files");
+
+    const match = router.match("GET", "/files/A/b/")!;
+    expect(match.canonicalPath).toBe("/Files/A/b");
+  });
+});
+
+describe("Nested routes", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/pos", () => "pos shell");
+    router.addRoute("/pos", () => "pos home", { index: true });
+    router.addRoute("/pos/:user", () => "user layout");
+    router.addRoute("/pos/:user/profile", () => "profile");
+  });
+
+  test("should return the matched branch from the root down", () => {
+    const branch = router.matchBranch("/pos/ada/profile?tab=1")!;
+    expect(
+      branch.map(({ handler, params, pathname }) => ({
+        handler: handler(),
+        params,
+        pathname,
+      }))
+    ).toEqual([
+      { handler: "pos shell", params: {}, pathname: "/pos" },
+      {
+        handler: "user layout",
+        params: { user: "ada" },
+        pathname: "/pos/ada",
+      },
+      {
+        handler: "profile",
+        params: { user: "ada" },
+        pathname: "/pos/ada/profile",
+      },
+    ]);
+  });
+
+  test("should list an index route after its layout", () => {
+    const branch = router.matchBranch("/pos/")!;
+    expect(branch.map(({ handler }) => handler())).toEqual([
+      "pos shell",
+      "pos home",
+    ]);
+    expect(branch[1]).toMatchObject({ pathname: "/pos", index: true });
+    expect(router.match("/pos")!.handler()).toBe("pos home");
+  });
+
+  test("should skip nodes without a page and require one at the leaf", () => {
+    router.post("/pos/:user/orders", () => "create order");
+
+    expect(router.matchBranch("/pos/ada/orders")).toBeUndefined();
+    expect(router.matchBranch("/unknown")).toBeUndefined();
+  });
+
+  test("should include splat routes and their params", () => {
+    router.addRoute("/pos/:user/$", () => "user files");
+
+    const branch = router.matchBranch("/pos/ada/a/b")!;
+    expect(branch.map(({ pathname }) => pathname)).toEqual([
+      "/pos",
+      "/pos/ada",
+      "/pos/ada/a/b",
+    ]);
+    expect(branch[2].params).toEqual({ user: "ada", "*": "a/b" });
+  });
+
+  test("should remove index routes with their path", () => {
+    expect(() =>
+      router.addRoute("/pos", () => "again", {
+        index: true,
+        throwOnDuplicate: true,
+      })
+    ).toThrow('Duplicate route "/pos": An index handler is already registered');
+
+    router.removeRoute("/pos");
+    expect(router.match("/pos")).toBeUndefined();
+  });
+});
+
+describe("Mounting", () => {
+  let router: RouteTree;
+  let admin: RouteTree;
+  let org: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/", () => "home");
+
+    admin = new RouteTree();
+    admin.addRoute("/", () => "admin home");
+    admin.addRoute("/users/:id", () => "admin user", { name: "adminUser" });
+
+    org = new RouteTree();
+    org.addRoute("/projects/:projectId", () => "project");
+
+    router.mount("/admin", admin);
+    router.mount("/orgs/:orgId", org);
+  });
+
+  test("should serve mounted routes under the prefix", () => {
+    expect(router.match("/admin")!.handler()).toBe("admin home");
+    expect(router.match("/admin/users/1")!.params).toEqual({ id: "1" });
+    expect(router.match("/users/1")).toBeUndefined();
+  });
+
+  test("should pass prefix params to mounted routes", () => {
+    expect(router.match("/orgs/acme/projects/7")!.params).toEqual({
+      orgId: "acme",
+      projectId: "7",
+    });
+  });
+
+  test("should reflect later changes to the mounted tree", () => {
+    admin.addRoute("/settings", () => "settings");
+    expect(router.match("/admin/settings")!.handler()).toBe("settings");
+
+    admin.removeRoute("/settings");
+    expect(router.match("/admin/settings")).toBeUndefined();
+  });
+
+  test("should reject changes below the prefix from the parent", () => {
+    expect(() => router.addRoute("/admin/settings", () => "x")).toThrow(
+      'Invalid route path "/admin/settings": "/admin" is mounted from another RouteTree'
+    );
+    expect(() => router.removeRoute("/admin/users/:id")).toThrow(
+      "is mounted from another RouteTree"
+    );
+  });
+
+  test("should report conflicts at the mount point", () => {
+    router.addRoute("/billing/invoices", () => "invoices");
+
+    expect(() => router.mount("/billing", new RouteTree())).toThrow(
+      'Conflicting mount "/billing": Routes are already registered at or below the prefix'
+    );
+    expect(() => router.mount("/admin", new RouteTree())).toThrow(
+      "Conflicting mount"
+    );
+    expect(() => router.mount("/", new RouteTree())).toThrow(
+      "Trees can only be mounted below the root"
+    );
+  });
+
+  test("should reject params declared by both the prefix and the tree", () => {
+    const team = new RouteTree();
+    team.addRoute("/:orgId", () => "team");
+    expect(() => router.mount("/teams/:orgId", team)).toThrow(
+      'Conflicting parameter names in mount "/teams/:orgId": ":orgId" is declared by both the prefix and a mounted route'
+    );
+
+    expect(() => org.addRoute("/members/:orgId", () => "member")).toThrow(
+      'Conflicting parameter names in route "/members/:orgId": ":orgId" is already declared by the mount prefix "/orgs/:orgId"'
+    );
+  });
+
+  test("should reject trees that match paths by other options", () => {
+    expect(() =>
+      router.mount("/billing", new RouteTree({ strictTrailingSlash: true }))
+    ).toThrow(
+      'Invalid mount prefix "/billing": Mounted trees must use the same strictTrailingSlash option'
+    );
+    expect(() =>
+      router.mount("/billing", new RouteTree({ caseSensitive: false }))
+    ).toThrow("Mounted trees must use the same caseSensitive option");
+    expect(() =>
+      router.mount("/billing", new RouteTree({ allowParamAliases: true }))
+    ).toThrow("Mounted trees must use the same allowParamAliases option");
+
+    router.mount("/billing", new RouteTree({ mergeSlashes: true }));
+  });
+
+  test("should leave no nodes behind for rejected prefixes", () => {
+    expect(() =>
+      router.mount("/teams/:teamId/sub/:teamId", new RouteTree())
+    ).toThrow("declared more than once");
+
+    const team = new RouteTree();
+    team.addRoute("/", () => "team");
+    router.mount("/teams/:team", team);
+    expect(router.match("/teams/a")!.handler()).toEqual("team");
+    expect(router.match("/teams/a/sub/b")).toBeUndefined();
+  });
+
+  test("should reject mounting a tree inside itself", () => {
+    expect(() => admin.mount("/root", router)).toThrow(
+      "A tree cannot be mounted inside itself"
+    );
+  });
+
+  test("should build URLs for named routes of mounted trees", () => {
+    expect(router.href("adminUser", { id: 1 })).toBe("/admin/users/1");
+    expect(() =>
+      router.addRoute("/other", () => "other", { name: "adminUser" })
+    ).toThrow(
+      'Duplicate route name "adminUser": Already used by route "/admin/users/:id"'
+    );
+  });
+
+  test("should reject names taken in the trees a tree is mounted into", () => {
+    router.addRoute("/home", () => "home", { name: "home" });
+    expect(() =>
+      admin.addRoute("/h", () => "admin home", { name: "home" })
+    ).toThrow('Duplicate route name "home": Already used by route "/home"');
+    expect(() =>
+      org.addRoute("/u/:id", () => "org user", { name: "adminUser" })
+    ).toThrow(
+      'Duplicate route name "adminUser": Already used by route "/admin/users/:id"'
+    );
+    expect(router.href("home")).toBe("/home");
+
+    admin.addRoute("/users/:id", () => "admin user", { name: "adminUser" });
+    expect(router.href("adminUser", { id: 1 })).toBe("/admin/users/1");
+  });
+});
+
+describe("Middleware", () => {
+  interface Context {
+    user?: string;
+    trace: string[];
+  }
+
+  let router: RouteTree<
+    (params: RouteParams, context: Context) => string,
+    Context
+  >;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/", () => "home");
+    router.addRoute("/pos/:user", (params, context) => {
+      return `pos for ${params.user} as ${context.user}`;
+    });
+    router.addRoute("/admin/$", () => "admin");
+
+    router.use("/", (context) => {
+      context.trace.push("root");
+    });
+    router.use("/pos/$", async (context) => {
+      context.trace.push("pos");
+      context.user = "ada";
+    });
+    router.use("/admin", (context) => (context.user ? undefined : deny(401)));
+  });
+
+  test("should run ancestor middleware before the handler", async () => {
+    const result = (await router.dispatch("/pos/7", { trace: [] }))!;
+
+    expect(result.outcome).toEqual({ type: "allow" });
+    expect(result.context.trace).toEqual(["root", "pos"]);
+    expect(result.result).toBe("pos for 7 as ada");
+    expectTypeOf(result.result).toEqualTypeOf<string | undefined>();
+    expect(result.match.params).toEqual({ user: "7" });
+  });
+
+  test("should only run middleware guarding the matched route", async () => {
+    const result = (await router.dispatch("/", { trace: [] }))!;
+
+    expect(result.context.trace).toEqual(["root"]);
+    expect(result.result).toBe("home");
+  });
+
+  test("should stop before the handler when a middleware denies", async () => {
+    const result = (await router.dispatch("/admin/users", { trace: [] }))!;
+
+    expect(result.outcome).toEqual({
+      type: "deny",
+      status: 401,
+      reason: undefined,
+    });
+    expect(result.result).toBeUndefined();
+    expect(result.match.params).toEqual({ "*": "users" });
+  });
+
+  test("should redirect with the matched route", async () => {
+    router.use("/pos/:user", (context, match) =>
+      redirect(`/login?next=/pos/${match.params.user}`)
+    );
+
+    const result = (await router.dispatch("/pos/7", { trace: [] }))!;
+    expect(result.outcome).toMatchObject({ location: "/login?next=/pos/7" });
+  });
+
+  test("should leave no nodes behind for rejected prefixes", () => {
+    expect(() => router.use("/teams/:id/:id", () => undefined)).toThrow(
+      "declared more than once"
+    );
+
+    router.addRoute("/teams/:teamId", () => "team");
+    expect(router.match("/teams/a")!.params).toEqual({ teamId: "a" });
+  });
+
+  test("should resolve to undefined for unknown paths", async () => {
+    expect(await router.dispatch("/missing", { trace: [] })).toBeUndefined();
+  });
+
+  test("should only take middleware and contexts of the tree's type", () => {
+    expectTypeOf(router.use).parameter(1).parameter(0).toEqualTypeOf<Context>();
+    expectTypeOf(router.dispatch).parameter(1).toEqualTypeOf<Context>();
+  });
+
+  test("should keep middleware when routes below it are removed", async () => {
+    router.use("/reports", (context) => {
+      context.trace.push("reports");
+    });
+    router.addRoute("/reports/daily", () => "daily");
+    router.removeRoute("/reports/daily");
+    router.addRoute("/reports/weekly", () => "weekly");
+
+    const result = (await router.dispatch("/reports/weekly", { trace: [] }))!;
+    expect(result.context.trace).toEqual(["root", "reports"]);
+  });
+
+  test("should run middleware of mounted trees after the parent's", async () => {
+    const billing = new RouteTree<
+      (params: RouteParams, context: Context) => string,
+      Context
+    >();
+    billing.addRoute("/invoices", () => "invoices");
+    billing.use("/", (context) => {
+      context.trace.push("billing");
+    });
+    router.use("/billing", (context) => {
+      context.trace.push("billing guard");
+    });
+    router.mount("/billing", billing);
+
+    const result = (await router.dispatch("/billing/invoices", { trace: [] }))!;
+    expect(result.context.trace).toEqual(["root", "billing guard", "billing"]);
+  });
+});
+
+describe("Compiled matching", () => {
+  const paths = [
+    "/",
+    "/about",
+    "/about/",
+    "//about",
+    "/users/42",
+    "/users/42/posts",
+    "/users/me",
+    "/orders/7",
+    "/orders/abc",
+    "/files/report.pdf",
+    "/files/archive.tar.gz",
+    "/static/css/app.css",
+    "/static/a%2Fb",
+    "/Docs/Intro?lang=en#top",
+    "/docs/intro",
+    "/missing/path",
+    "/users/%E2%9C%93",
+  ];
+
+  const setup = (options = {}) => {
+    const router = new RouteTree({ allowParamAliases: true, ...options });
+    router.addRoute("/", () => "home");
+    router.addRoute("/about", () => "about");
+    router.addRoute("/users/me", () => "me");
+    router.addRoute("/users/:id", () => "user");
+    router.addRoute("/users/:userId/posts", () => "posts");
+    router.get("/orders/:id<int>", () => "order");
+    router.post("/orders/:id", () => "create");
+    router.addRoute("/files/:name.:ext", () => "file");
+    router.addRoute("/files/:name.tar.gz", () => "archive");
+    router.addRoute("/static/$", () => "static");
+    router.addRoute("/docs/intro", () => "intro");
+    return router;
+  };
+
+  test("should match like the uncompiled tree", () => {
+    for (const options of [{}, { caseSensitive: false }]) {
+      const router = setup(options);
+      const compiled = router.compile();
+
+      for (const path of paths) {
+        expect(compiled.match(path)).toEqual(router.match(path));
+        expect(compiled.match("GET", path)).toEqual(router.match("GET", path));
+        expect(compiled.match("POST", path)).toEqual(
+          router.match("POST", path)
+        );
+      }
+    }
+  });
+
+  test("should report canonical paths of static routes", () => {
+    const compiled = setup({ caseSensitive: false }).compile();
+
+    expect(compiled.match("/ABOUT/")!.canonicalPath).toBe("/about");
+    expect(compiled.match("/about")!.canonicalPath).toBeUndefined();
+  });
+
+  test("should freeze the tree and its mounted trees", () => {
+    const router = setup();
+    const admin = new RouteTree({ allowParamAliases: true });
+    router.mount("/admin", admin);
+    router.compile();
+
+    expect(() => router.addRoute("/new", () => "new")).toThrow(
+      "Cannot add routes: The RouteTree was frozen by compile()"
+    );
+    expect(() => router.removeRoute("/about")).toThrow("Cannot remove routes");
+    expect(() => router.use("/about", () => undefined)).toThrow(
+      "Cannot add middleware: The RouteTree was frozen by compile()"
+    );
+    expect(() => admin.use("/", () => undefined)).toThrow(
+      "Cannot add middleware"
+    );
+    expect(() => admin.addRoute("/users", () => "users")).toThrow(
+      "Cannot add routes"
+    );
+    expect(router.match("/about")!.handler()).toBe("about");
+  });
+});
+
+describe("Match cache", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree({ cacheSize: 2 });
+    router.addRoute("/users/:id", () => "user");
+    router.addRoute("/files/$", () => "files");
+  });
+
+  test("should serve repeated paths from the cache", () => {
+    const first = router.match("/users/1?tab=a")!;
+    const second = router.match("/users/1?tab=b")!;
+
+    expect(second.params).toBe(first.params);
+    expect(second.query).toEqual({ tab: "b" });
+    expect(router.cacheStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  test("should cache paths that matched nothing", () => {
+    expect(router.match("/missing")).toBeUndefined();
+    expect(router.match("/missing")).toBeUndefined();
+    expect(router.cacheStats()).toMatchObject({ hits: 1, size: 1 });
+  });
+
+  test("should evict the least recently used path", () => {
+    router.match("/users/1");
+    router.match("/users/2");
+    router.match("/users/1");
+    router.match("/users/3");
+
+    expect(router.cacheStats()).toMatchObject({
+      hits: 1,
+      misses: 3,
+      evictions: 1,
+      size: 2,
+    });
+  });
+
+  test("should freeze cached params", () => {
+    const match = router.match("/files/a/b")!;
+
+    expect(() => {
+      match.params.id = "2";
+    }).toThrow(TypeError);
+    expect(() => match.splat!.push("c")).toThrow(TypeError);
+    expect(router.match("/files/a/b")!.params).toEqual({ "*": "a/b" });
+  });
+
+  test("should be cleared when routes change", () => {
+    expect(router.match("/about")).toBeUndefined();
+    router.addRoute("/about", () => "about");
+    expect(router.match("/about")!.handler()).toBe("about");
+
+    router.removeRoute("/about");
+    expect(router.match("/about")).toBeUndefined();
+  });
+
+  test("should be cleared when a mounted tree changes", () => {
+    const admin = new RouteTree();
+    router.mount("/admin", admin);
+    expect(router.match("/admin/users")).toBeUndefined();
+
+    admin.addRoute("/users", () => "admin users");
+    expect(router.match("/admin/users")!.handler()).toBe("admin users");
+  });
+
+  test("should be off by default", () => {
+    expect(new RouteTree().cacheStats()).toBeUndefined();
+  });
+});
+
+describe("Serialization", () => {
+  const handlers = {
+    home: () => "home",
+    user: () => "user",
+    posts: () => "posts",
+    createOrder: () => "create order",
+    order: () => "order",
+    file: () => "file",
+    files: () => "files",
+    shell: () => "shell",
+    dashboard: () => "dashboard",
+  };
+
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree({ allowParamAliases: true, caseSensitive: false });
+    router.addRoute("/", handlers.home, { id: "home" });
+    router.addRoute("/users/:id", handlers.user, { id: "user", name: "user" });
+    router.addRoute("/users/:userId/posts", handlers.posts, { id: "posts" });
+    router.post("/orders", handlers.createOrder, { id: "createOrder" });
+    router.get("/orders/:id<int>", handlers.order, { id: "order" });
+    router.addRoute("/Files/:name.:ext", handlers.file, { id: "file" });
+    router.addRoute("/static/$", handlers.files, { id: "files" });
+    router.addRoute("/app", handlers.shell, { id: "shell" });
+    router.addRoute("/app", handlers.dashboard, {
+      id: "dashboard",
+      index: true,
+    });
+  });
+
+  test("should rebuild an identical tree from its manifest", () => {
+    const manifest = JSON.parse(JSON.stringify(router));
+    const loaded = RouteTree.fromJSON(manifest, handlers);
+
+    expect(loaded.toVisualTree()).toBe(router.toVisualTree());
+    expect(loaded.toJSON()).toEqual(manifest);
+    for (const path of [
+      "/",
+      "/users/1",
+      "/users/1/posts",
+      "/orders/7",
+      "/files/a.txt",
+      "/static/css/app.css",
+      "/app",
+      "/missing",
+    ]) {
+      expect(loaded.match(path)).toEqual(router.match(path));
+      expect(loaded.match("POST", path)).toEqual(router.match("POST", path));
+    }
+    expect(loaded.href("user", { id: 3 })).toBe("/users/3");
+  });
+
+  test("should describe nodes, params and handler ids", () => {
+    const { version, root } = router.toJSON();
+
+    expect(version).toBe(MANIFEST_VERSION);
+    expect(root.handler).toBe("home");
+    expect(root.static!.users.params).toEqual([
+      {
+        segment: ":id",
+        pattern: "/users/:id",
+        node: {
+          handler: "user",
+          static: { posts: { handler: "posts", aliases: { id: "userId" } } },
+        },
+      },
+    ]);
+    expect(root.static!.orders).toMatchObject({
+      methods: { POST: "createOrder" },
+      params: [{ segment: ":id<int>", node: { methods: { GET: "order" } } }],
+    });
+    expect(root.static!.Files.mixed![0].segment).toBe(":name.:ext");
+    expect(root.static!.static.splat).toEqual({ handler: "files" });
+    expect(root.static!.app).toEqual({ handler: "shell", index: "dashboard" });
+  });
+
+  test("should include routes of mounted trees", () => {
+    const admin = new RouteTree({
+      allowParamAliases: true,
+      caseSensitive: false,
+    });
+    admin.addRoute("/users", () => "admin users", {
+      id: "user",
+      name: "admin",
+    });
+    router.mount("/admin", admin);
+
+    const { names, root } = router.toJSON();
+    expect(names.admin).toBe("/admin/users");
+    expect(root.static!.admin.static!.users.handler).toBe("user");
+  });
+
+  test("should refuse to serialize handlers without an id", () => {
+    router.put("/users/:id", () => "update");
+
+    expect(() => router.toJSON()).toThrow(
+      'Cannot serialize route "/users/:id": Its PUT handler was added without an id'
+    );
+  });
+
+  test("should reject unknown handler ids and other versions", () => {
+    const manifest = router.toJSON();
+
+    const { order, ...withoutOrder } = handlers;
+    expect(() => RouteTree.fromJSON(manifest, withoutOrder)).toThrow(
+      'Invalid route manifest: Unknown handler id "order" for route "/orders/:id<int>"'
+    );
+    expect(() =>
+      RouteTree.fromJSON({ ...manifest, version: 99 }, handlers)
+    ).toThrow(
+      `Unsupported route manifest version 99: Expected 1 to ${MANIFEST_VERSION}`
+    );
+  });
+
+  test("should reject segments that no longer parse", () => {
+    const manifest = router.toJSON();
+    manifest.root.static!.orders.params![0].segment = ":id<nope>";
+
+    expect(() => RouteTree.fromJSON(manifest, handlers)).toThrow(
+      'Invalid route manifest: Invalid route path "/:id<nope>": Unknown parameter type "<nope>"'
+    );
+  });
+});
+
+describe("Lint", () => {
+  const handler = () => "handler";
+
+  test("should report nothing for an unambiguous route table", () => {
+    const router = new RouteTree();
+    router.addRoute("/", handler);
+    router.addRoute("/users/:id<int>", handler);
+    router.addRoute("/users/:id/edit", handler);
+    router.addRoute("/files/:name.:ext", handler);
+
+    expect(router.lint()).toEqual([]);
+  });
+
+  test("should report params that are always matched by an earlier one", () => {
+    const router = new RouteTree();
+    router.addRoute("/items/:id<number>", handler);
+    router.addRoute("/items/:id<int>", handler);
+    router.addRoute("/items/:id<1|2>", handler);
+
+    const findings = router.lint();
+    expect(findings.map(({ code }) => code)).toEqual([
+      "unreachable",
+      "unreachable",
+    ]);
+    expect(findings[0]).toEqual({
+      severity: "error",
+      code: "unreachable",
+      message:
+        'Route "/items/:id<int>" can never be reached: "/items/:id<number>" matches every value of its param first',
+      patterns: ["/items/:id<int>", "/items/:id<number>"],
+    });
+    expect(findings[1].patterns).toEqual([
+      "/items/:id<1|2>",
+      "/items/:id<number>",
+    ]);
+  });
+
+  test("should keep params reachable when the earlier one only has children", () => {
+    const router = new RouteTree();
+    router.addRoute("/items/:id<number>/edit", handler);
+    router.addRoute("/items/:id<int>", handler);
+
+    expect(router.lint()).toEqual([]);
+  });
+
+  test("should report overwritten handlers", () => {
+    const router = new RouteTree();
+    router.addRoute("/docs/:page?", handler);
+    router.addRoute("/docs", handler);
+    router.post("/docs", handler);
+    router.post("/docs", handler);
+
+    expect(router.lint()).toEqual([
+      {
+        severity: "warning",
+        code: "overwritten-handler",
+        message: 'Route "/docs" replaced the handler of "/docs/:page?"',
+        patterns: ["/docs", "/docs/:page?"],
+      },
+      {
+        severity: "warning",
+        code: "overwritten-handler",
+        message: 'Route "/docs" replaced the POST handler of "/docs"',
+        patterns: ["/docs", "/docs"],
+      },
+    ]);
+  });
+
+  test("should forget overwritten handlers once the route is removed", () => {
+    const router = new RouteTree();
+    router.addRoute("/docs", handler);
+    router.addRoute("/docs", handler);
+    router.removeRoute("/docs");
+    router.addRoute("/docs", handler);
+
+    expect(router.lint()).toEqual([]);
+  });
+
+  test("should report params named differently for the same segment", () => {
+    const router = new RouteTree({ allowParamAliases: true });
+    router.addRoute("/users/:id", handler);
+    router.addRoute("/users/:userId/posts", handler);
+    router.addRoute("/users/:id<uuid>", handler);
+    router.addRoute("/users/:slug<int>", handler);
+
+    expect(router.lint()).toEqual([
+      {
+        severity: "info",
+        code: "param-names",
+        message:
+          'Params below "/users" use different names for the same segment: ":id", ":slug", ":id"',
+        patterns: ["/users/:id<uuid>", "/users/:slug<int>", "/users/:id"],
+      },
+      {
+        severity: "warning",
+        code: "param-aliases",
+        message:
+          'Route "/users/:userId/posts" names params differently than the routes sharing its segments: ":userId" for ":id"',
+        patterns: ["/users/:userId/posts", "/users/:id/posts"],
+      },
+    ]);
+  });
+
+  test("should report splats behind dynamic siblings", () => {
+    const router = new RouteTree();
+    router.addRoute("/docs/$", handler);
+    router.addRoute("/docs/:page", handler);
+    router.addRoute("/docs/api/v1", handler);
+
+    expect(router.lint()).toEqual([
+      {
+        severity: "warning",
+        code: "splat-shadowed",
+        message:
+          'Route "/docs/$" never matches a single segment: "/docs/:page" takes all of them',
+        patterns: ["/docs/$", "/docs/:page"],
+      },
+      {
+        severity: "info",
+        code: "splat-fallthrough",
+        message:
+          'Route "/docs/$" receives the requests below "/docs/api" that no route there matches',
+        patterns: ["/docs/$", "/docs/api"],
+      },
+    ]);
+  });
+
+  test("should lint the routes of mounted trees", () => {
+    const admin = new RouteTree();
+    admin.addRoute("/users", handler);
+    admin.addRoute("/users", handler);
+    const router = new RouteTree();
+    router.mount("/admin", admin);
+
+    expect(router.lint().map(({ patterns }) => patterns)).toEqual([
+      ["/users", "/users"],
+    ]);
+  });
+});
+
+describe("Introspection", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree({ allowParamAliases: true });
+    router.addRoute("/", () => "home", { id: "home" });
+    router.get("/users/:id<int>", () => "user", { name: "user" });
+    router.addRoute("/users/:id<int>/files/:name.:ext", () => "file");
+    router.addRoute("/docs/:page?", () => "docs", { name: "docs" });
+    router.addRoute("/docs/:slug/$", () => "asset");
+  });
+
+  test("should list every route with its kind, params and depth", () => {
+    expect(router.routes()).toEqual([
+      {
+        pattern: "/",
+        kind: "static",
+        params: [],
+        depth: 0,
+        methods: ["*"],
+        index: false,
+        ids: { "*": "home" },
+      },
+      {
+        pattern: "/users/:id<int>",
+        kind: "dynamic",
+        params: ["id"],
+        depth: 2,
+        methods: ["GET"],
+        index: false,
+        name: "user",
+        ids: {},
+      },
+      {
+        pattern: "/users/:id<int>/files/:name.:ext",
+        kind: "dynamic",
+        params: ["id", "name", "ext"],
+        depth: 4,
+        methods: ["*"],
+        index: false,
+        ids: {},
+      },
+      expect.objectContaining({ pattern: "/docs", name: "docs" }),
+      expect.objectContaining({ pattern: "/docs/:page", name: "docs" }),
+      expect.objectContaining({
+        pattern: "/docs/:slug/$",
+        kind: "splat",
+        params: ["slug"],
+      }),
+    ]);
+  });
+
+  test("should list the param names each route declared", () => {
+    router.addRoute("/docs/:page/edit", () => "edit");
+
+    expect(router.routes().map(({ pattern }) => pattern)).toContain(
+      "/docs/:slug/$"
+    );
+    expect(router.routes().map(({ pattern }) => pattern)).toContain(
+      "/docs/:page/edit"
+    );
+  });
+
+  test("should walk nodes without routes and skip subtrees", () => {
+    const visited: string[] = [];
+    router.walk(({ pattern, kind, route }) => {
+      visited.push(`${kind} ${pattern}${route ? "" : " (no route)"}`);
+      return pattern !== "/users/:id<int>";
+    });
+
+    expect(visited).toEqual([
+      "root /",
+      "static /users (no route)",
+      "param /users/:id<int>",
+      "static /docs",
+      "param /docs/:page",
+      "splat /docs/:slug/$",
+    ]);
+  });
+
+  test("should render the tree without dynamic or splat branches", () => {
+    expect(router.toVisualTree({ hideDynamic: true })).toEqual(
+      [
+        "Route Tree Structure:",
+        "└── / [✓]",
+        "    ├── /users",
+        "    └── /docs [✓]",
+        "",
+      ].join("\n")
+    );
+    expect(router.toVisualTree({ hideSplats: true })).not.toContain("*");
+  });
+
+  test("should render Graphviz DOT and Mermaid", () => {
+    const dot = router.toVisualTree({ format: "dot", hideDynamic: true });
+    expect(dot).toContain('n1 [label="users"];');
+    expect(dot).toContain("n0 -> n2;");
+
+    const mermaid = router.toVisualTree({ format: "mermaid" });
+    expect(mermaid.split("\n")[0]).toBe("flowchart TD");
+    expect(mermaid).toContain('n7["* [✓]"]');
+  });
+
+  test("should render JSON with route patterns", () => {
+    const tree = JSON.parse(router.toVisualTree({ format: "json" }));
+
+    expect(tree.children[0].children[0]).toMatchObject({
+      segment: ":<id><int>",
+      pattern: "/users/:id<int>",
+      kind: "param",
+      methods: ["GET"],
+    });
+  });
+});
+
+describe("Route metadata", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/admin", () => "admin", {
+      meta: { title: "Admin", permissions: ["admin"] },
+    });
+    router.addRoute("/admin", () => "dashboard", {
+      index: true,
+      meta: { title: "Dashboard" },
+    });
+    router.get("/reports/:id", () => "report", {
+      meta: { cacheTtl: 60, team: "billing" },
+    });
+    router.post("/reports/:id", () => "save report");
+  });
+
+  test("should return the metadata of the matched handler", () => {
+    expect(router.match("/reports/7")!.meta).toEqual({
+      cacheTtl: 60,
+      team: "billing",
+    });
+    expect(router.match("POST", "/reports/7")).toMatchObject({
+      meta: undefined,
+    });
+    expect(router.match("/admin")!.meta).toEqual({ title: "Dashboard" });
+    expect(router.compile().match("GET", "/reports/7")).toMatchObject({
+      meta: { cacheTtl: 60, team: "billing" },
+    });
+  });
+
+  test("should return the metadata of every route in a branch", () => {
+    expect(router.matchBranch("/admin")!.map(({ meta }) => meta)).toEqual([
+      { title: "Admin", permissions: ["admin"] },
+      { title: "Dashboard" },
+    ]);
+  });
+
+  test("should replace or drop metadata with the handler", () => {
+    router.get("/reports/:id", () => "report");
+    expect(router.match("/reports/7")!.meta).toBeUndefined();
+
+    router.removeRoute("/admin");
+    router.addRoute("/admin", () => "admin");
+    expect(router.match("/admin")!.meta).toBeUndefined();
+  });
+
+  test("should list and serialize metadata", () => {
+    expect(router.routes()[0].meta).toEqual({
+      "*": { title: "Admin", permissions: ["admin"] },
+      index: { title: "Dashboard" },
+    });
+
+    const tree = new RouteTree();
+    tree.addRoute("/", () => "home", { id: "home", meta: { title: "Home" } });
+    const loaded = RouteTree.fromJSON(tree.toJSON(), { home: () => "home" });
+    expect(loaded.match("/")!.meta).toEqual({ title: "Home" });
+  });
+});
+
+describe("Explain", () => {
+  let router: RouteTree;
+
+  beforeEach(() => {
+    router = new RouteTree();
+    router.addRoute("/pos/hardware", () => "pos hardware route");
+    router.addRoute("/pos/:user", () => "pos user route");
+    router.addRoute("/pos/:user/profile", () => "pos user profile route");
+    router.addRoute("/pos/$", () => "pos splat route");
+    router.addRoute("/items/:id<int>", () => "item");
+  });
+
+  test("should trace backtracking into a splat", () => {
+    expect(router.explain("/pos/ada/settings")).toEqual({
+      steps: [
+        {
+          depth: 0,
+          segment: "pos",
+          kind: "static",
+          pattern: "/pos",
+          outcome: "accepted",
+          reason: 'Matches "pos"',
+        },
+        {
+          depth: 1,
+          segment: "ada",
+          kind: "param",
+          pattern: "/pos/:user",
+          outcome: "rejected",
+          reason: "Nothing below it matches the rest of the path",
+        },
+        {
+          depth: 1,
+          segment: "ada",
+          kind: "splat",
+          pattern: "/pos/$",
+          outcome: "accepted",
+          reason: 'Captures "ada/settings"',
+        },
+      ],
+      pattern: "/pos/$",
+      params: { "*": "ada/settings" },
+    });
+  });
+
+  test("should trace the end of the path", () => {
+    const { steps, pattern, params } = router.explain("/pos/ada");
+
+    expect(steps.map(({ kind, outcome }) => `${kind} ${outcome}`)).toEqual([
+      "static accepted",
+      "param accepted",
+      "end accepted",
+    ]);
+    expect(pattern).toBe("/pos/:user");
+    expect(params).toEqual({ user: "ada" });
+  });
+
+  test("should explain rejected constraints and missing matches", () => {
+    expect(router.explain("/items/abc")).toEqual({
+      steps: [
+        expect.objectContaining({
+          pattern: "/items",
+          outcome: "rejected",
+          reason: "Nothing below it matches the rest of the path",
+        }),
+        expect.objectContaining({
+          pattern: "/items/:id<int>",
+          outcome: "rejected",
+          reason: '"abc" doesn\'t fit <int>',
+        }),
+      ],
+    });
+  });
+});
+
+describe("Host routing", () => {
+  let router: RouteTree<string>;
+
+  beforeEach(() => {
+    router = new RouteTree<string>();
+    router.addRoute("/dashboard", "tenant dashboard", {
+      host: ":tenant.example.com",
+    });
+    router.addRoute("/dashboard", "admin dashboard", {
+      host: "admin.example.com",
+    });
+    router.addRoute("/v1/$", "api", { host: "api.example.com" });
+    router.addRoute("/dashboard", "dashboard");
+    router.addRoute("/about", "about");
+  });
+
+  test("should reject host routes in mounted trees", () => {
+    const child = new RouteTree<string>();
+    child.addRoute("/x", "x", { host: "api.example.com" });
+    expect(() => router.mount("/admin", child)).toThrow(
+      'Invalid mount prefix "/admin": Trees with host routes cannot be mounted'
+    );
+
+    child.removeRoute("/x", undefined, { host: "api.example.com" });
+    router.mount("/admin", child);
+    expect(() =>
+      child.addRoute("/y", "y", { host: "api.example.com" })
+    ).toThrow(
+      'Invalid route "/y": Host routes cannot be added to a mounted RouteTree'
+    );
+    expect(router.routes().map(({ pattern }) => pattern)).not.toContain(
+      "/admin/y"
+    );
+  });
+
+  test("should merge host params into the match", () => {
+    const match = router.match("https://acme.example.com/dashboard?tab=1");
+
+    expect(match?.handler).toBe("tenant dashboard");
+    expect(match?.params).toEqual({ tenant: "acme" });
+    expect(match?.values).toEqual({ tenant: "acme" });
+    expect(match?.query).toEqual({ tab: "1" });
+    expect(router.match("https://api.example.com:8443/v1/users/1")).toEqual(
+      expect.objectContaining({ handler: "api", splat: ["users", "1"] })
+    );
+  });
+
+  test("should prefer the most specific host, then routes without a host", () => {
+    expect(router.match("https://admin.example.com/dashboard")?.handler).toBe(
+      "admin dashboard"
+    );
+    // Neither host has the path, so the routes without a host answer
+    expect(router.match("https://acme.example.com/about")?.handler).toBe(
+      "about"
+    );
+    expect(router.match("https://other.org/dashboard")?.handler).toBe(
+      "dashboard"
+    );
+    // Paths and hosts of no pattern only see the routes without a host
+    expect(router.match("/dashboard")?.handler).toBe("dashboard");
+    expect(router.match(new URL("https://a.b.example.com/v1/x"))).toBe(
+      undefined
+    );
+  });
+
+  test("should report method mismatches of host routes", () => {
+    router.addRoute("/items", "list", {
+      host: "api.example.com",
+      method: "GET",
+    });
+    router.addRoute("/items", "any");
+
+    expect(router.match("POST", "https://api.example.com/items")).toMatchObject(
+      { allowedMethods: ["GET", "OPTIONS"], reason: "method-not-allowed" }
+    );
+    expect(router.match("POST", "https://example.com/items")?.handler).toBe(
+      "any"
+    );
+  });
+
+  test("should match host routes with compiled matchers", () => {
+    const { match } = router.compile();
+
+    expect(match("https://acme.example.com/dashboard")).toMatchObject({
+      handler: "tenant dashboard",
+      params: { tenant: "acme" },
+    });
+    expect(match("https://example.com/dashboard")?.handler).toBe("dashboard");
+    expect(() =>
+      router.addRoute("/x", "x", { host: "api.example.com" })
+    ).toThrow("The RouteTree was frozen by compile()");
+  });
+
+  test("should find host routes with matchBranch and explain", () => {
+    const url = "https://acme.example.com/dashboard";
+
+    expect(router.matchBranch(url)).toEqual([
+      expect.objectContaining({
+        handler: "tenant dashboard",
+        params: { tenant: "acme" },
+      }),
+    ]);
+    expect(router.matchBranch("https://acme.example.com/about")).toEqual([
+      expect.objectContaining({ handler: "about", params: {} }),
+    ]);
+
+    const { pattern, params, steps } = router.explain(url);
+    expect(pattern).toBe("/dashboard");
+    expect(params).toEqual({ tenant: "acme" });
+    expect(steps.length).toBeGreaterThan(0);
+  });
+
+  test("should remove host routes only when asked for their host", () => {
+    expect(router.removeRoute("/dashboard")).toBe(true);
+    expect(router.match("https://acme.example.com/dashboard")?.handler).toBe(
+      "tenant dashboard"
+    );
+
+    expect(
+      router.removeRoute("/dashboard", undefined, {
+        host: ":tenant.example.com",
+      })
+    ).toBe(true);
+    expect(
+      router.hasRoute("/dashboard", undefined, { host: ":tenant.example.com" })
+    ).toBe(false);
+    expect(
+      router.hasRoute("/dashboard", undefined, { host: "admin.example.com" })
+    ).toBe(true);
+    expect(router.match("https://acme.example.com/dashboard")).toBeUndefined();
+    expect(
+      router.removeRoute("/dashboard", undefined, { host: "other.org" })
+    ).toBe(false);
+  });
+
+  test("should lint and walk host routes", () => {
+    router.addRoute("/v1/$", "api again", { host: "api.example.com" });
+
+    expect(router.lint()).toEqual([
+      expect.objectContaining({
+        code: "overwritten-handler",
+        host: "api.example.com",
+        patterns: ["/v1/$", "/v1/$"],
+      }),
+    ]);
+
+    const visited: string[] = [];
+    router.walk(({ pattern, host }) => {
+      visited.push(`${host ?? "*"} ${pattern}`);
+    });
+    expect(visited).toContain("api.example.com /v1/$");
+    expect(visited.indexOf("* /about")).toBeLessThan(
+      visited.indexOf("api.example.com /v1/$")
+    );
+  });
+
+  test("should reject path params that repeat a host param", () => {
+    expect(() =>
+      router.addRoute("/users/:tenant", "user", { host: ":tenant.example.com" })
+    ).toThrow(
+      'Conflicting parameter names in route "/users/:tenant": ":tenant" is already declared by the host ":tenant.example.com"'
+    );
+  });
+
+  test("should list host routes and build their paths by name", () => {
+    router.addRoute("/users/:id", "user", {
+      host: ":tenant.example.com",
+      name: "user",
+    });
+
+    expect(router.href("user", { id: 1 })).toBe("/users/1");
+    expect(
+      router.routes().map(({ pattern, host }) => `${host ?? "*"} ${pattern}`)
+    ).toEqual([
+      "* /dashboard",
+      "* /about",
+      "admin.example.com /dashboard",
+      "api.example.com /v1/$",
+      ":tenant.example.com /dashboard",
+      ":tenant.example.com /users/:id",
+    ]);
+    expect(() => router.toJSON()).toThrow(
+      "Cannot serialize host routes: Manifests only hold routes without a host"
+    );
+  });
+});
+
+describe("Localized routes", () => {
+  let router: RouteTree<string>;
+
+  beforeEach(() => {
+    router = new RouteTree<string>();
+    router.addLocalizedRoute(
+      {
+        en: "/en/products/:id<int>",
+        de: "/de/produkte/:id<int>",
+        fr: "/fr/produits/:id<int>",
+      },
+      "product",
+      { name: "product", meta: { title: "Product" } }
+    );
+    router.addRoute("/en/about", "about");
+  });
+
+  test("should report the locale of the matched path", () => {
+    expect(router.match("/de/produkte/7")).toMatchObject({
+      handler: "product",
+      params: { id: "7" },
+      values: { id: 7 },
+      locale: "de",
+      meta: { title: "Product" },
+    });
+    expect(router.match("GET", "/fr/produits/7")).toMatchObject({
+      locale: "fr",
+    });
+    expect(router.match("/en/about")?.locale).toBeUndefined();
+  });
+
+  test("should build the route's path in any of its locales", () => {
+    expect(router.href("product", { id: 7 })).toBe("/en/products/7");
+    expect(router.href("product", { id: 7 }, { locale: "de" })).toBe(
+      "/de/produkte/7"
+    );
+    expect(router.alternates("/fr/produits/7?ref=nav")).toEqual({
+      en: "/en/products/7",
+      de: "/de/produkte/7",
+      fr: "/fr/produits/7",
+    });
+    expect(router.alternates("/en/about")).toEqual({});
+    expect(() => router.href("product", { id: 7 }, { locale: "it" })).toThrow(
+      'Unknown locale "it" for route "product"'
+    );
+  });
+
+  test("should build alternates of mounted routes with the mount prefix", () => {
+    const shop = new RouteTree<string>();
+    shop.addLocalizedRoute(
+      { en: "/en/products/:id", de: "/de/produkte/:id" },
+      "product",
+      { name: "shop-product" }
+    );
+    const store = new RouteTree<string>();
+    store.mount("/:store", shop);
+    router.mount("/shop", store);
+
+    expect(router.alternates("/shop/berlin/de/produkte/5")).toEqual({
+      en: "/shop/berlin/en/products/5",
+      de: "/shop/berlin/de/produkte/5",
+    });
+    expect(
+      router.href("shop-product", { store: "berlin", id: 5 }, { locale: "de" })
+    ).toBe("/shop/berlin/de/produkte/5");
+  });
+
+  test("should drop the locale of a removed path", () => {
+    expect(router.removeRoute("/de/produkte/:id<int>")).toBe(true);
+
+    expect(router.alternates("/en/products/3")).toEqual({
+      en: "/en/products/3",
+      fr: "/fr/produits/3",
+    });
+    expect(() => router.href("product", { id: 3 }, { locale: "de" })).toThrow(
+      'Unknown locale "de" for route "product"'
+    );
+
+    router.removeRoute("/en/products/:id<int>");
+    expect(router.href("product", { id: 3 })).toBe("/fr/produits/3");
+    expect(router.alternates("/fr/produits/3")).toEqual({
+      fr: "/fr/produits/3",
+    });
+  });
+
+  test("should drop the locale of an overwritten path", () => {
+    router.addLocalizedRoute({ en: "/a", de: "/b" }, "one", { name: "one" });
+    router.addLocalizedRoute({ en: "/a", fr: "/c" }, "two");
+
+    expect(router.href("one", {}, { locale: "de" })).toBe("/b");
+    expect(router.alternates("/b")).toEqual({ de: "/b" });
+    expect(router.alternates("/a")).toEqual({ en: "/a", fr: "/c" });
+
+    router.addRoute("/de/produkte/:id<int>", "plain");
+    expect(router.alternates("/fr/produits/3")).toEqual({
+      en: "/en/products/3",
+      fr: "/fr/produits/3",
+    });
+    expect(router.alternates("/de/produkte/3")).toEqual({});
+  });
+
+  test("should reject paths whose params differ", () => {
+    expect(() =>
+      router.addLocalizedRoute(
+        { en: "/en/posts/:year/:slug", de: "/de/beitraege/:jahr/:slug" },
+        "post"
+      )
+    ).toThrow(
+      'Invalid localized route "/de/beitraege/:jahr/:slug": Its params (:jahr, :slug) differ from those of "/en/posts/:year/:slug" (:slug, :year)'
+    );
+    expect(() =>
+      router.addLocalizedRoute({ en: "/en/a/:id?", de: "/de/a/:id" }, "a")
+    ).toThrow(
+      'Invalid localized route "/de/a/:id": Its params (:id) differ from those of "/en/a/:id?" (:id?)'
+    );
+    expect(() =>
+      router.addLocalizedRoute(
+        { en: "/en/b/:id<int>", de: "/de/b/:id", fr: "/fr/b/$" },
+        "b"
+      )
+    ).toThrow(
+      'Its params (:id) differ from those of "/en/b/:id<int>" (:id<int>)'
+    );
+    expect(() =>
+      router.addLocalizedRoute(
+        { en: "/en/archive/:month/:year", de: "/de/archiv/:year/:month" },
+        "archive"
+      )
+    ).not.toThrow();
+  });
+
+  test("should keep locales in listings and manifests", () => {
+    expect(router.routes()[0]).toMatchObject({
+      pattern: "/en/products/:id<int>",
+      name: "product",
+      locales: { "*": "en" },
+    });
+    expect(router.toVisualTree()).toContain(
+      "/de/produkte/:<id><int> [✓] [locale de]\n"
+    );
+
+    const tree = new RouteTree<string>();
+    tree.addLocalizedRoute({ en: "/en", de: "/de" }, "home", { id: "home" });
+    const manifest = tree.toJSON();
+    expect(manifest.version).toBe(3);
+    const loaded = RouteTree.fromJSON(manifest, { home: "home" });
+    expect(loaded.match("/de")?.locale).toBe("de");
+    expect(loaded.alternates("/de")).toEqual({ en: "/en", de: "/de" });
+  });
+});
@@ -1,223 +1,3255 @@
-interface RouteParams {
+import {
+  expandOptionalSegments,
+  parsePattern,
+  type MixedParam,
+  type MixedSegment,
+  type ParamConstraint,
+  type ParamValue,
+  type PatternSegment,
+} from "./routePattern";
+
+import { LruCache, type CacheStats } from "./routeCache";
+import {
+  compareHostPatterns,
+  parseHostPattern,
+  type HostPattern,
+} from "./routeHost";
+import { constraintSubsumes, type LintFinding } from "./routeLint";
+import type { RouteLoader } from "./routeLoader";
+import {
+  validateManifest,
+  MANIFEST_VERSION,
+  type ManifestChild,
+  type ManifestNode,
+  type RouteManifest,
+} from "./routeManifest";
+import {
+  runMiddleware,
+  type DispatchResult,
+  type HandlerResult,
+  type Middleware,
+} from "./routeMiddleware";
+import {
+  decodeSegment,
+  parseHost,
+  parseUrl,
+  type ParsedUrl,
+  type RouteQuery,
+} from "./routeUrl";
+import {
+  renderVisualTree,
+  type VisualNode,
+  type VisualTreeOptions,
+} from "./routeVisual";
+
+export type { ParamValue } from "./routePattern";
+export type { CacheStats } from "./routeCache";
+export type { LintCode, LintFinding, LintSeverity } from "./routeLint";
+export type { LoaderContext, RouteLoader } from "./routeLoader";
+export {
+  MANIFEST_VERSION,
+  type ManifestNode,
+  type RouteManifest,
+} from "./routeManifest";
+export {
+  deny,
+  redirect,
+  type DispatchResult,
+  type GuardOutcome,
+  type Middleware,
+} from "./routeMiddleware";
+export { RouteDecodeError, type RouteQuery } from "./routeUrl";
+export type {
+  VisualFormat,
+  VisualNode,
+  VisualTreeOptions,
+} from "./routeVisual";
+
+export interface RouteParams {
   [key: string]: string;
 }
 
-interface RouteMatch {
-  handler: (params?: RouteParams) => string;
+// Params with the values of typed params (":id<int>") converted, see
+// RouteMatch.values
+export interface ParamValues {
+  [key: string]: ParamValue;
+}
+
+// The handler type a RouteTree stores when none is given
+export type RouteHandler = (params?: RouteParams) => string;
+
+// Reserved param key holding the remainder matched by a splat segment
+export const SPLAT_PARAM = "*";
+
+// Params declared by a route pattern, as found in RouteMatch.values, e.g.
+// "/users/:id<int>/$" gives { id: number; "*": string }. Patterns only known
+// as string give RouteParams.
+export type PathParams<TPath extends string> = string extends TPath
+  ? RouteParams
+  : Simplify<SegmentParams<TPath>>;
+
+type SegmentParams<TPath extends string> =
+  TPath extends `${infer Head}/${infer Rest}`
+    ? SegmentParam<Head> & SegmentParams<Rest>
+    : SegmentParam<TPath>;
+
+type SegmentParam<TSegment extends string> = TSegment extends "$"
+  ? { [SPLAT_PARAM]: string }
+  : TSegment extends `:${infer Param}?`
+  ? Partial<ParamSpec<Param>>
+  : TSegment extends `:${infer Param}`
+  ? Param extends `${string}:${string}`
+    ? MixedParams<TSegment>
+    : ParamSpec<Param>
+  : TSegment extends `${string}:${string}`
+  ? MixedParams<TSegment>
+  : {};
+
+type ParamSpec<TParam extends string> =
+  TParam extends `${infer Name}<${infer Type}>${string}`
+    ? { [K in Name]: ParamTypeValue<Type> }
+    : TParam extends `${infer Name}(${string}`
+    ? { [K in Name]: string }
+    : { [K in TParam]: string };
+
+type ParamTypeValue<TType extends string> = TType extends "int" | "number"
+  ? number
+  : TType extends `${string}|${string}`
+  ? EnumValues<TType>
+  : string;
+
+// Params of a segment such as "@:username" or ":name.:ext", whose names end
+// at the first character that can't be part of one
+type MixedParams<TSegment extends string> =
+  TSegment extends `${string}:${infer Rest}`
+    ? MixedParamAt<TakeParamName<Rest>>
+    : {};
+
+type MixedParamAt<TNameAndRest> = TNameAndRest extends [
+  infer Name extends string,
+  infer Rest extends string
+]
+  ? Name extends ""
+    ? MixedParams<Rest>
+    : Rest extends `<${infer Type}>${infer After}`
+    ? { [K in Name]: ParamTypeValue<Type> } & MixedParams<After>
+    : Rest extends `(${string})${infer After}`
+    ? { [K in Name]: string } & MixedParams<After>
+    : { [K in Name]: string } & MixedParams<Rest>
+  : {};
+
+type TakeParamName<
+  TText extends string,
+  TName extends string = ""
+> = TText extends `${infer Char}${infer Rest}`
+  ? IsParamNameChar<Char> extends true
+    ? TakeParamName<Rest, `${TName}${Char}`>
+    : [TName, TText]
+  : [TName, ""];
+
+// Letters are the characters whose upper and lower case differ
+type IsParamNameChar<TChar extends string> = TChar extends
+  | "_"
+  | "0"
+  | "1"
+  | "2"
+  | "3"
+  | "4"
+  | "5"
+  | "6"
+  | "7"
+  | "8"
+  | "9"
+  ? true
+  : Uppercase<TChar> extends Lowercase<TChar>
+  ? false
+  : true;
+
+type EnumValues<TType extends string> =
+  TType extends `${infer Head}|${infer Rest}`
+    ? Head | EnumValues<Rest>
+    : TType;
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// A handler whose params argument is typed from the route pattern. Handler
+// types that don't take a params object first are left as they are.
+export type TypedHandler<THandler, TPath extends string> = THandler extends (
+  params: infer TParams,
+  ...rest: infer TRest
+) => infer TResult
+  ? RouteParams extends TParams
+    ? (params: PathParams<TPath>, ...rest: TRest) => TResult
+    : THandler
+  : THandler;
+
+// Metadata attached to a route with AddRouteOptions.meta, e.g. a title or
+// the permissions it requires
+export interface RouteMeta {
+  [key: string]: unknown;
+}
+
+// Locale of a route added with RouteTree.addLocalizedRoute, and the route's
+// path in each of its locales
+export interface RouteLocale {
+  locale: string;
+  paths: Record<string, string>;
+}
+
+export interface RouteTreeOptions {
+  // Let routes declare different names for a shared dynamic segment, e.g.
+  // "/users/:id" and "/users/:userId/posts", instead of throwing
+  allowParamAliases?: boolean;
+  // Match static segments case-sensitively (default true)
+  caseSensitive?: boolean;
+  // Treat "/users/" and "/users" as different routes (default false)
+  strictTrailingSlash?: boolean;
+  // Collapse repeated slashes in matched paths (default true)
+  mergeSlashes?: boolean;
+  // Cache the results of match for this many distinct pathnames, including
+  // paths that matched nothing (off by default)
+  cacheSize?: number;
+}
+
+// Options that change which paths a route matches, by their defaults. A
+// mounted tree matches its routes by the options of the tree it's mounted
+// into, so both must agree on these.
+const matchingOptions: Required<
+  Pick<
+    RouteTreeOptions,
+    | "allowParamAliases"
+    | "caseSensitive"
+    | "strictTrailingSlash"
+    | "mergeSlashes"
+  >
+> = {
+  allowParamAliases: false,
+  caseSensitive: true,
+  strictTrailingSlash: false,
+  mergeSlashes: true,
+};
+const matchingOptionNames = Object.keys(
+  matchingOptions
+) as (keyof typeof matchingOptions)[];
+
+export interface AddRouteOptions {
+  // Only handle requests with this HTTP method (defaults to every method)
+  method?: string;
+  // Throw instead of replacing a handler already registered for the route
+  throwOnDuplicate?: boolean;
+  // Name to build URLs for the route with RouteTree.href
+  name?: string;
+  // Register the default child of the layout at the same path, which
+  // match prefers and matchBranch lists after the layout
+  index?: boolean;
+  // Identifies the handler in manifests written by RouteTree.toJSON
+  id?: string;
+  // Returned with matches served by the handler
+  meta?: RouteMeta;
+  // Loads the route's data before it renders, see RouteResolver
+  loader?: RouteLoader;
+  // Only match URLs on this host, e.g. "api.example.com" or
+  // ":tenant.example.com" with its labels' values merged into params.
+  // match, matchBranch and explain try host routes for absolute URLs
+  // before the routes without a host. dispatch only finds routes without a
+  // host, as middleware is added to those. Trees with host routes cannot be
+  // mounted, nor host routes added to mounted trees, as only the root tree
+  // of a mount matches hosts.
+  host?: string;
+}
+
+export interface RemoveRouteOptions {
+  // Remove the route added with this host pattern instead of the route
+  // without a host
+  host?: string;
+}
+
+// Values accepted for a query string appended by RouteTree.href
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface HrefOptions {
+  query?: Record<string, QueryValue | QueryValue[]>;
+  // Build the path of the route in this locale, see addLocalizedRoute
+  locale?: string;
+}
+
+export interface RouteMatch<THandler = RouteHandler> {
+  handler: THandler;
+  // Percent-decoded values of the route's params
+  params: RouteParams;
+  // params, with the values of typed params converted, e.g. { id: 42 } for
+  // ":id<int>"
+  values: ParamValues;
+  query: RouteQuery;
+  // Fragment of the matched URL, without the leading "#"
+  hash?: string;
+  // Segments consumed by a splat ($) route, also joined into params["*"]
+  splat?: string[];
+  // Methods the matched path has handlers for (method-aware matches only)
+  allowedMethods?: string[];
+  // Set when the requested pathname differs from the matched route's
+  // canonical form (e.g. "/Users/" for "/users"), so callers can redirect
+  canonicalPath?: string;
+  // Metadata the matched handler was added with
+  meta?: RouteMeta;
+  // Locale of the matched path, for routes added with addLocalizedRoute
+  locale?: string;
+}
+
+// One route of the branch returned by RouteTree.matchBranch
+export interface RouteBranchEntry<THandler = RouteHandler> {
+  handler: THandler;
+  // Params declared by this route and its ancestors
+  params: RouteParams;
+  // Part of the requested path matched by this route, e.g. "/pos/ada"
+  pathname: string;
+  // Set on the index route rendered inside the layout at the same path
+  index?: boolean;
+  meta?: RouteMeta;
+  loader?: RouteLoader;
+}
+
+// Returned by a method-aware match when the path exists but has no handler
+// for the requested method
+export interface MethodMismatch {
+  handler?: undefined;
+  params: RouteParams;
+  // Methods the path has handlers for, e.g. for an Allow header
+  allowedMethods: string[];
+  // "options" when an OPTIONS request can be answered from allowedMethods
+  reason: "method-not-allowed" | "options";
+  canonicalPath?: string;
+}
+
+// Segment a node is reached by, "root" for the root node
+export type RouteSegmentKind = "root" | "static" | "mixed" | "param" | "splat";
+
+// A registered route as listed by RouteTree.routes. Routes with optional
+// params are listed once for every combination of their segments.
+export interface RouteInfo {
+  // The route's pattern with the param names it declared
+  pattern: string;
+  // "splat" for routes ending in $, "dynamic" for other routes with params
+  kind: "static" | "dynamic" | "splat";
+  // Names of the route's params in order, without the splat
+  params: string[];
+  // Number of segments, 0 for "/"
+  depth: number;
+  // Methods with a handler of their own, after "*" for a handler of every
+  // method
+  methods: string[];
+  // Whether an index handler is registered
+  index: boolean;
+  name?: string;
+  // Ids the handlers were added with, by method, "*" and "index"
+  ids: Record<string, string>;
+  // Metadata the handlers were added with, keyed like ids
+  meta?: Record<string, RouteMeta>;
+  // Host pattern the route was added with
+  host?: string;
+  // Locales of the handlers added with addLocalizedRoute, keyed like ids
+  locales?: Record<string, string>;
+}
+
+// A node visited by RouteTree.walk
+export interface RouteWalkEntry {
+  pattern: string;
+  // The node's own segment as written in the pattern, "" for the root
+  segment: string;
+  kind: RouteSegmentKind;
+  depth: number;
+  // Set when routes are registered at the node
+  route?: RouteInfo;
+  // Host pattern of the node's tree, for nodes of host routes
+  host?: string;
+}
+
+// A candidate tried while matching a path, as listed by RouteTree.explain
+export interface ExplainStep {
+  // Number of requested segments matched before the candidate
+  depth: number;
+  // The requested segment the candidate was tried against, unset when
+  // checking for a route at the end of the path
+  segment?: string;
+  kind: "static" | "mixed" | "param" | "splat" | "end";
+  // Pattern of the candidate node, with its shared param names
+  pattern: string;
+  outcome: "accepted" | "rejected";
+  reason: string;
+}
+
+export interface RouteExplanation {
+  // Candidates in the order they were tried, including those given up on
+  // when nothing below them matched
+  steps: ExplainStep[];
+  // The route match would pick, if any
+  pattern?: string;
+  params?: RouteParams;
+}
+
+// Returned by RouteTree.compile, matching like RouteTree.match
+export interface CompiledMatcher<THandler = RouteHandler> {
+  match(url: string | URL): RouteMatch<THandler> | undefined;
+  match(
+    method: string,
+    url: string | URL
+  ): RouteMatch<THandler> | MethodMismatch | undefined;
+}
+
+interface DynamicChild<THandler> {
+  node: RouteNode<THandler>;
+  paramName: string;
+  // Route that first declared the param, for conflict errors
+  pattern: string;
+  constraint?: ParamConstraint;
+}
+
+interface MixedChild<THandler> {
+  node: RouteNode<THandler>;
+  segment: MixedSegment;
+  // Names of the segment's params, in order, as first declared
+  paramNames: string[];
+  // Constraints of the segment's params, in the same order
+  paramTypes: Array<ParamConstraint | undefined>;
+  pattern: string;
+}
+
+// Param names of a route being registered and how they map onto the names
+// other routes already use for the same positions
+interface ParamNames {
+  declared: Set<string>;
+  shared: Set<string>;
+  aliases: Record<string, string>;
+  // Params of the prefixes the tree is mounted under, with the prefix
+  reserved: Map<string, string>;
+}
+
+// Node of a fully static route and its registered segments, by the path
+// it matches (see RouteTree.compile)
+type StaticRoutes<THandler> = Map<
+  string,
+  { node: RouteNode<THandler>; canonical: string[] }
+>;
+
+interface Mount<THandler, TContext> {
+  prefix: string;
+  tree: RouteTree<THandler, TContext>;
+}
+
+// Routes added with a host, kept in a tree of their own per host pattern
+interface HostRoutes<TRoutes> {
+  pattern: HostPattern;
+  routes: TRoutes;
+}
+
+// The node a path resolved to, before a handler is picked for the method
+interface BranchStep<THandler> {
+  node: RouteNode<THandler>;
+  params: RouteParams;
+  // Segments left to match below node
+  remaining: number;
+}
+
+// Candidates tried by matchSegments, recorded for RouteTree.explain
+interface MatchTrace {
+  steps: ExplainStep[];
+  // Pattern of the node being matched, "" for the root
+  path: string;
+  // Number of requested segments
+  total: number;
+  // Step of the candidate whose node is being matched
+  candidate?: ExplainStep;
+}
+
+// Child of a node as visited by RouteTree.walk
+interface WalkStep<THandler> {
+  node: RouteNode<THandler>;
+  kind: RouteSegmentKind;
+  // The segment as written in a route, with its shared param names passed
+  // through rename
+  text(rename: (name: string) => string): string;
+  // Shared names of the segment's params
+  params: string[];
+}
+
+const sameName = (name: string) => name;
+
+// Methods allowed by a route that handles every method
+const HTTP_METHODS = [
+  "DELETE",
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PATCH",
+  "POST",
+  "PUT",
+];
+
+// Method of a match ending at any handler, see RouteNode.endsMatch
+const ANY_METHOD = "*";
+
+// A param segment as written in a route, with the shared name
+function dynamicSegmentText(
+  child: DynamicChild<unknown>,
+  rename = sameName
+): string {
+  return `:${rename(child.paramName)}${child.constraint?.source ?? ""}`;
+}
+
+// A mixed segment as written in a route, with the shared names
+function mixedSegmentText(
+  child: MixedChild<unknown>,
+  rename = sameName
+): string {
+  let paramIndex = 0;
+  return child.segment.parts
+    .map((part) =>
+      typeof part === "string"
+        ? part
+        : `:${rename(child.paramNames[paramIndex++])}${
+            part.constraint?.source ?? ""
+          }`
+    )
+    .join("");
+}
+
+// Names of the params segments declare, SPLAT_PARAM for a splat
+function patternParams(segments: PatternSegment[]): string[] {
+  const names: string[] = [];
+  for (const segment of segments) {
+    if (segment.type === "param") {
+      names.push(segment.name);
+    } else if (segment.type === "mixed") {
+      segment.parts.forEach((part) => {
+        if (typeof part !== "string") names.push(part.name);
+      });
+    } else if (segment.type === "splat") {
+      names.push(SPLAT_PARAM);
+    }
+  }
+  return names;
+}
+
+// The params segments declare as written, with their constraints and
+// whether they are optional, e.g. [":id<int>", ":lang?", "$"]
+function paramSpecs(segments: PatternSegment[]): string[] {
+  const specs: string[] = [];
+  for (const segment of segments) {
+    if (segment.type === "param") {
+      const constraint = segment.constraint?.source ?? "";
+      specs.push(`:${segment.name}${constraint}${segment.optional ? "?" : ""}`);
+    } else if (segment.type === "mixed") {
+      segment.parts.forEach((part) => {
+        if (typeof part !== "string") {
+          specs.push(`:${part.name}${part.constraint?.source ?? ""}`);
+        }
+      });
+    } else if (segment.type === "splat") {
+      specs.push("$");
+    }
+  }
+  return specs;
+}
+
+// Removes the nodes recorded by RouteTree.childNode, newest first, after a
+// check of the route that created them threw
+function rollBack(created: Array<() => void>): void {
+  created.reverse().forEach((remove) => remove());
+}
+
+// The parts of a NodeMatch that match needs, as kept by the match cache
+type ResolvedNode<THandler> = Pick<
+  NodeMatch<THandler>,
+  "node" | "params" | "typed" | "splat" | "canonicalPath"
+>;
+
+type ParamTypes = Record<string, ParamConstraint>;
+
+// params with the values of the typed ones converted
+function paramValues(params: RouteParams, typed: ParamTypes): ParamValues {
+  const values: ParamValues = { ...params };
+  for (const name in typed) {
+    values[name] = typed[name].coerce(params[name]);
+  }
+  return values;
+}
+
+interface NodeMatch<THandler> {
+  node: RouteNode<THandler>;
   params: RouteParams;
+  // Constraints of the typed params among params, by name
+  typed: ParamTypes;
+  splat?: string[];
+  // Registered literal of each matched static segment, undefined where
+  // the requested segment itself is canonical
+  canonical: Array<string | undefined>;
+  canonicalPath?: string;
+  // Nodes visited from the root down to node (empty for compiled matches)
+  trail: BranchStep<THandler>[];
+  // Requested segments before decoding, set by findNode
+  segments?: string[];
 }
 
 // Make RouteNode accessible to RouteTree but not exported
-class RouteNode {
-  children: Map<string, RouteNode> = new Map();
-  dynamicChild?: { node: RouteNode; paramName: string };
-  splatChild?: RouteNode;
-  handler?: (params?: RouteParams) => string;
+class RouteNode<THandler> {
+  children: Map<string, RouteNode<THandler>> = new Map();
+  // Segments mixing literals and params, most specific first
+  mixedChildren: MixedChild<THandler>[] = [];
+  // Params with a type or regex constraint, tried before dynamicChild
+  constrainedChildren: DynamicChild<THandler>[] = [];
+  dynamicChild?: DynamicChild<THandler>;
+  splatChild?: RouteNode<THandler>;
+  handler?: THandler;
+  methodHandlers: Map<string, THandler> = new Map();
+  // Default child of the layout in handler, see AddRouteOptions.index
+  indexHandler?: THandler;
+  // Ids of the handlers above, by method, "*" for handler and "index" for
+  // indexHandler
+  handlerIds: Map<string, string> = new Map();
+  // Metadata, loaders and locales of the handlers above, by the same slots
+  meta: Map<string, RouteMeta> = new Map();
+  loaders: Map<string, RouteLoader> = new Map();
+  locales: Map<string, RouteLocale> = new Map();
+  // Patterns of the routes that registered each slot, and of the earlier
+  // routes whose handler they replaced (see RouteTree.lint)
+  handlerPatterns: Map<string, string> = new Map();
+  replacedPatterns: Map<string, string[]> = new Map();
+  // Static segment as first registered, for canonical paths
+  literal?: string;
+  // Declared names of the route registered here, keyed by the shared
+  // dynamicChild paramName they replace (only set with allowParamAliases)
+  paramAliases?: Record<string, string>;
+
+  constructor(handler?: THandler) {
+    this.handler = handler;
+  }
+
+  hasHandler(): boolean {
+    return (
+      this.handler !== undefined ||
+      this.indexHandler !== undefined ||
+      this.methodHandlers.size > 0
+    );
+  }
+
+  hasChildren(): boolean {
+    return (
+      this.children.size > 0 ||
+      this.mixedChildren.length > 0 ||
+      this.constrainedChildren.length > 0 ||
+      this.dynamicChild !== undefined ||
+      this.splatChild !== undefined
+    );
+  }
+
+  // Whether a handler is registered for a slot of handlerIds
+  hasSlot(slot: string): boolean {
+    if (slot === "*") return this.handler !== undefined;
+    if (slot === "index") return this.indexHandler !== undefined;
+    return this.methodHandlers.has(slot);
+  }
+
+  isEmpty(): boolean {
+    return !this.hasHandler() && !this.hasChildren();
+  }
+
+  // Handler used to render the node as a layout or page
+  pageHandler(): THandler | undefined {
+    return this.handler ?? this.methodHandlers.get("GET");
+  }
+
+  // Slot of the handler serving requests with method
+  methodSlot(method: string): string {
+    if (this.methodHandlers.has(method)) return method;
+    return this.indexHandler !== undefined ? "index" : "*";
+  }
+
+  // Slot of the handler pageHandler returns
+  pageSlot(): string {
+    return this.handler !== undefined ? "*" : "GET";
+  }
+
+  // Whether a match can end here. A match with a method ends at a handler
+  // serving it, or at any handler for ANY_METHOD, while one without a method
+  // only ends at a page or index route.
+  endsMatch(method: string | undefined): boolean {
+    if (method === undefined) {
+      return (
+        this.indexHandler !== undefined || this.pageHandler() !== undefined
+      );
+    }
+    if (method === ANY_METHOD) return this.hasHandler();
+    return (
+      this.methodHandlers.has(method) ||
+      this.indexHandler !== undefined ||
+      this.handler !== undefined
+    );
+  }
+
+  allowedMethods(): string[] {
+    const methods = new Set(this.methodHandlers.keys());
+    // Handlers without a method serve every method
+    if (this.handler !== undefined || this.indexHandler !== undefined) {
+      HTTP_METHODS.forEach((method) => methods.add(method));
+    }
+    methods.add("OPTIONS");
+    return Array.from(methods).sort();
+  }
+}
+
+export class RouteTree<THandler = RouteHandler, TContext = unknown> {
+  private root: RouteNode<THandler> = new RouteNode<THandler>();
+  // Route patterns by the name they were registered under
+  private routeNames: Map<string, string> = new Map();
+  // Trees mounted into this one, and the trees this one is mounted into
+  private mounts: Mount<THandler, TContext>[] = [];
+  private mountedIn: Array<Mount<THandler, TContext> & { params: string[] }> =
+    [];
+  // Nodes shared with a mounted tree, by mount prefix
+  private mountPoints: Map<RouteNode<THandler>, string> = new Map();
+  // Middleware added with use, by the node of its prefix
+  private middleware: Map<
+    RouteNode<THandler>,
+    Middleware<TContext, THandler>[]
+  > = new Map();
+  // Trees of the routes added with a host, most specific host first
+  private hosts: HostRoutes<RouteTree<THandler, TContext>>[] = [];
+  // Set by compile, after which routes can no longer change
+  private frozen = false;
+  // Resolved nodes by requested pathname, null when nothing matched
+  private cache?: LruCache<string, ResolvedNode<THandler> | null>;
+
+  constructor(private options: RouteTreeOptions = {}) {
+    if (options.cacheSize !== undefined) {
+      this.cache = new LruCache(options.cacheSize);
+    }
+  }
+
+  addRoute<TPath extends string>(
+    path: TPath,
+    handler: TypedHandler<THandler, TPath>,
+    options: AddRouteOptions = {}
+  ): void {
+    this.assertNotFrozen("add routes");
+    const pattern = this.normalizeRoutePath(path);
+    this.assertNameFree(options.name, pattern);
+    if (options.host !== undefined) {
+      const routes = this.hostRoutes(options.host, [pattern]);
+      routes.addRoute(pattern, handler as TypedHandler<THandler, string>, {
+        ...options,
+        host: undefined,
+      });
+      return;
+    }
+
+    this.assertNotDuplicate(pattern, options);
+    this.addPattern(pattern, handler as THandler, options);
+    this.invalidate();
+  }
+
+  // Adds one route under a path per locale, e.g. { en: "/en/products/:id",
+  // de: "/de/produkte/:id" }. Matches report the locale of the path they
+  // matched, and href and alternates build the route's path in any of its
+  // locales. Every path must declare the same params, and a name refers to
+  // the route in its first locale.
+  addLocalizedRoute<TPath extends string>(
+    paths: Record<string, TPath>,
+    handler: TypedHandler<THandler, TPath>,
+    options: AddRouteOptions = {}
+  ): void {
+    this.assertNotFrozen("add routes");
+    const locales = Object.keys(paths);
+    if (locales.length === 0) {
+      throw new Error(
+        "Invalid localized route: Expected a path for at least one locale"
+      );
+    }
+    const localized: Record<string, string> = {};
+    locales.forEach((locale) => {
+      localized[locale] = this.normalizeRoutePath(paths[locale]);
+    });
+
+    const first = localized[locales[0]];
+    // Locales may order the params differently
+    const expected = paramSpecs(parsePattern(first)).sort();
+    for (const locale of locales) {
+      const params = paramSpecs(parsePattern(localized[locale])).sort();
+      if (params.join("/") !== expected.join("/")) {
+        throw new Error(
+          `Invalid localized route "${localized[locale]}": Its params (${
+            params.join(", ") || "none"
+          }) differ from those of "${first}" (${expected.join(", ") || "none"})`
+        );
+      }
+    }
+
+    this.assertNameFree(options.name, first);
+    if (options.host !== undefined) {
+      const patterns = locales.map((locale) => localized[locale]);
+      const routes = this.hostRoutes(options.host, patterns);
+      routes.addLocalizedRoute(
+        localized,
+        handler as TypedHandler<THandler, string>,
+        { ...options, host: undefined }
+      );
+      return;
+    }
+
+    locales.forEach((locale) => {
+      this.assertNotDuplicate(localized[locale], options);
+    });
+    locales.forEach((locale, index) => {
+      this.addPattern(
+        localized[locale],
+        handler as THandler,
+        index === 0 ? options : { ...options, name: undefined },
+        { locale, paths: localized }
+      );
+    });
+    this.invalidate();
+  }
+
+  // Names are shared with the trees this one is mounted into, which check
+  // the name against the route's pattern under their mount prefix
+  private assertNameFree(name: string | undefined, pattern: string): void {
+    const namedPattern = name !== undefined && this.routePattern(name);
+    if (namedPattern && namedPattern !== pattern) {
+      throw new Error(
+        `Duplicate route name "${name}": Already used by route "${namedPattern}"`
+      );
+    }
+    this.mountedIn.forEach(({ prefix, tree }) => {
+      tree.assertNameFree(name, pattern === "/" ? prefix : prefix + pattern);
+    });
+  }
+
+  private assertNotDuplicate(pattern: string, options: AddRouteOptions): void {
+    const method = options.method?.toUpperCase();
+    const { index = false } = options;
+    if (index && method) {
+      throw new Error(
+        `Invalid route "${pattern}": Index routes cannot be limited to a method`
+      );
+    }
+    if (
+      options.throwOnDuplicate &&
+      expandOptionalSegments(parsePattern(pattern)).some((segments) =>
+        this.hasSegments(segments, method, index)
+      )
+    ) {
+      const kind = index ? "An index" : method ? `A ${method}` : "A";
+      throw new Error(
+        `Duplicate route "${pattern}": ${kind} handler is already registered`
+      );
+    }
+  }
+
+  private addPattern(
+    pattern: string,
+    handler: THandler,
+    options: AddRouteOptions,
+    locale?: RouteLocale
+  ): void {
+    // Routes with optional params are registered once per combination. All
+    // are walked first, so a rejected combination leaves no nodes behind.
+    const variants = expandOptionalSegments(parsePattern(pattern));
+    const created: Array<() => void> = [];
+    let targets: Array<{ node: RouteNode<THandler>; names: ParamNames }>;
+    try {
+      targets = variants.map((segments) =>
+        this.routeNode(pattern, segments, created)
+      );
+    } catch (error) {
+      rollBack(created);
+      throw error;
+    }
+    for (const { node, names } of targets) {
+      this.register(pattern, node, names, handler, {
+        method: options.method?.toUpperCase(),
+        index: options.index ?? false,
+        id: options.id,
+        meta: options.meta,
+        loader: options.loader,
+        locale,
+      });
+    }
+    if (options.name !== undefined) {
+      this.routeNames.set(options.name, pattern);
+    }
+  }
+
+  // The tree of the routes added with host, if any
+  private routesOfHost(
+    host: string
+  ): RouteTree<THandler, TContext> | undefined {
+    const { source } = parseHostPattern(host);
+    return this.hosts.find(({ pattern }) => pattern.source === source)?.routes;
+  }
+
+  // The first result of find for the trees of the hosts url's host fits,
+  // trying them in the order match does
+  private findInHosts<T>(
+    url: string | URL,
+    find: (
+      routes: RouteTree<THandler, TContext>,
+      hostParams: RouteParams
+    ) => T | undefined
+  ): T | undefined {
+    const hostname = this.hosts.length > 0 ? parseHost(url) : undefined;
+    if (hostname === undefined) return undefined;
+
+    for (const { pattern, routes } of this.hosts) {
+      const hostParams = pattern.match(hostname);
+      const result = hostParams && find(routes, hostParams);
+      if (result !== undefined) return result;
+    }
+    return undefined;
+  }
+
+  // The tree of the routes of host, checking that patterns don't declare
+  // the host's params again
+  private hostRoutes(
+    host: string,
+    patterns: string[]
+  ): RouteTree<THandler, TContext> {
+    if (this.mountedIn.length > 0) {
+      throw new Error(
+        `Invalid route "${patterns[0]}": Host routes cannot be added to a mounted RouteTree`
+      );
+    }
+    const hostPattern = parseHostPattern(host);
+    for (const pattern of patterns) {
+      const pathParams = patternParams(parsePattern(pattern));
+      hostPattern.labels.forEach((label) => {
+        if (typeof label !== "string" && pathParams.includes(label.name)) {
+          throw new Error(
+            `Conflicting parameter names in route "${pattern}": ":${label.name}" is already declared by the host "${hostPattern.source}"`
+          );
+        }
+      });
+    }
+
+    let entry = this.hosts.find(
+      (entry) => entry.pattern.source === hostPattern.source
+    );
+    if (!entry) {
+      entry = { pattern: hostPattern, routes: new RouteTree(this.options) };
+      // After the hosts at least as specific, so ties keep their order
+      const index = this.hosts.findIndex(
+        (other) => compareHostPatterns(hostPattern, other.pattern) < 0
+      );
+      this.hosts.splice(index === -1 ? this.hosts.length : index, 0, entry);
+    }
+    return entry.routes;
+  }
+
+  // The node of a route's segments, creating missing nodes and recording
+  // how to remove them in created
+  private routeNode(
+    path: string,
+    segments: PatternSegment[],
+    created: Array<() => void>
+  ): { node: RouteNode<THandler>; names: ParamNames } {
+    let node = this.root;
+    const names = this.paramNames();
+    for (const segment of segments) {
+      node = this.childNode(node, segment, path, names, created);
+      this.assertNotMounted(path, node);
+    }
+    return { node, names };
+  }
+
+  private register(
+    path: string,
+    current: RouteNode<THandler>,
+    names: ParamNames,
+    handler: THandler,
+    {
+      method,
+      index,
+      id,
+      meta,
+      loader,
+      locale,
+    }: Pick<AddRouteOptions, "method" | "index" | "id" | "meta" | "loader"> & {
+      locale?: RouteLocale;
+    }
+  ): void {
+    const slot = index ? "index" : method ?? "*";
+    if (current.hasSlot(slot)) {
+      const previous = current.handlerPatterns.get(slot) ?? path;
+      const patterns = current.replacedPatterns.get(slot) ?? [];
+      current.replacedPatterns.set(slot, [...patterns, previous]);
+    }
+    current.handlerPatterns.set(slot, path);
+    const previousLocale = current.locales.get(slot);
+    if (previousLocale && previousLocale !== locale) {
+      this.forgetLocale(previousLocale, slot);
+    }
+
+    if (index) {
+      current.indexHandler = handler;
+    } else if (method) {
+      current.methodHandlers.set(method, handler);
+    } else {
+      current.handler = handler;
+    }
+
+    if (id !== undefined) {
+      current.handlerIds.set(slot, id);
+    } else {
+      current.handlerIds.delete(slot);
+    }
+    if (meta !== undefined) {
+      current.meta.set(slot, meta);
+    } else {
+      current.meta.delete(slot);
+    }
+    if (loader !== undefined) {
+      current.loaders.set(slot, loader);
+    } else {
+      current.loaders.delete(slot);
+    }
+    if (locale !== undefined) {
+      current.locales.set(slot, locale);
+    } else {
+      current.locales.delete(slot);
+    }
+    current.paramAliases =
+      Object.keys(names.aliases).length > 0 ? names.aliases : undefined;
+  }
+
+  private paramNames(): ParamNames {
+    return {
+      declared: new Set(),
+      shared: new Set(),
+      aliases: {},
+      reserved: this.mountParams(),
+    };
+  }
+
+  // Walks from current to the child for segment, creating it if needed.
+  // Created children are recorded in created, before their params are
+  // checked, so a caller can remove them when a check throws.
+  private childNode(
+    current: RouteNode<THandler>,
+    segment: PatternSegment,
+    path: string,
+    names: ParamNames,
+    created: Array<() => void>
+  ): RouteNode<THandler> {
+    const parent = current;
+    if (segment.type === "splat") {
+      // Splat route - matches everything after
+      if (!current.splatChild) {
+        current.splatChild = new RouteNode<THandler>();
+        created.push(() => (parent.splatChild = undefined));
+      }
+      current = current.splatChild;
+    } else if (segment.type === "param") {
+      // Dynamic segment
+      let child = this.findDynamicChild(current, segment.constraint);
+      if (!child) {
+        child = {
+          node: new RouteNode<THandler>(),
+          paramName: segment.name,
+          pattern: path,
+          constraint: segment.constraint,
+        };
+        const added = child;
+        if (segment.constraint) {
+          current.constrainedChildren.push(child);
+          created.push(() => {
+            parent.constrainedChildren = parent.constrainedChildren.filter(
+              (other) => other !== added
+            );
+          });
+        } else {
+          current.dynamicChild = child;
+          created.push(() => (parent.dynamicChild = undefined));
+        }
+      }
+      this.claimParam(path, segment.name, child.paramName, child, names);
+      current = child.node;
+    } else if (segment.type === "mixed") {
+      // Segment mixing literals and params
+      const params = segment.parts.filter(
+        (part): part is MixedParam => typeof part !== "string"
+      );
+      let child = current.mixedChildren.find(
+        (child) => child.segment.key === segment.key
+      );
+      if (!child) {
+        child = {
+          node: new RouteNode<THandler>(),
+          segment,
+          paramNames: params.map((param) => param.name),
+          paramTypes: params.map((param) => param.constraint),
+          pattern: path,
+        };
+        this.insertMixedChild(current, child);
+        const added = child;
+        created.push(() => {
+          parent.mixedChildren = parent.mixedChildren.filter(
+            (other) => other !== added
+          );
+        });
+      }
+
+      for (let i = 0; i < params.length; i++) {
+        const sharedName = child.paramNames[i];
+        this.claimParam(path, params[i].name, sharedName, child, names);
+      }
+      current = child.node;
+    } else {
+      // Static segment
+      const key = this.staticKey(segment.value);
+      if (!current.children.has(key)) {
+        const child = new RouteNode<THandler>();
+        child.literal = segment.value;
+        current.children.set(key, child);
+        created.push(() => parent.children.delete(key));
+      }
+      current = current.children.get(key)!;
+    }
+    return current;
+  }
+
+  // Hits, misses and evictions of the match cache, if cacheSize is set
+  cacheStats(): CacheStats | undefined {
+    return this.cache?.stats();
+  }
+
+  // Clears cached matches of this tree and of the trees it is mounted into,
+  // which serve its routes too
+  private invalidate(): void {
+    this.cache?.clear();
+    this.mountedIn.forEach(({ tree }) => tree.invalidate());
+  }
+
+  private assertNotFrozen(action: string): void {
+    if (this.frozen) {
+      throw new Error(
+        `Cannot ${action}: The RouteTree was frozen by compile()`
+      );
+    }
+  }
+
+  // Parent routes cannot add to or remove from a mounted tree, which owns
+  // everything below its mount point
+  private assertNotMounted(path: string, node: RouteNode<THandler>): void {
+    const prefix = this.mountPoints.get(node);
+    if (prefix !== undefined) {
+      throw new Error(
+        `Invalid route path "${path}": "${prefix}" is mounted from another RouteTree`
+      );
+    }
+  }
+
+  // Params declared by the prefixes this tree is mounted under, directly or
+  // through the trees it is mounted into
+  private mountParams(): Map<string, string> {
+    const params = new Map<string, string>();
+    for (const { prefix, tree, params: names } of this.mountedIn) {
+      names.forEach((name) => params.set(name, prefix));
+      tree.mountParams().forEach((prefix, name) => params.set(name, prefix));
+    }
+    return params;
+  }
+
+  // Names of the routes of this tree, its host routes unless withHosts is
+  // false, and the trees mounted into it
+  private namedRoutes(withHosts = true): string[] {
+    const names = Array.from(this.routeNames.keys());
+    if (withHosts) {
+      this.hosts.forEach(({ routes }) => names.push(...routes.namedRoutes()));
+    }
+    this.mounts.forEach(({ tree }) =>
+      names.push(...tree.namedRoutes(withHosts))
+    );
+    return names;
+  }
+
+  // Pattern of a named route, in locale if given, looking into host routes
+  // and mounted trees after this one
+  private routePattern(name: string, locale?: string): string | undefined {
+    const pattern = this.routeNames.get(name);
+    if (pattern !== undefined) {
+      return locale === undefined
+        ? pattern
+        : this.localizedPattern(name, pattern, locale);
+    }
+
+    for (const { routes } of this.hosts) {
+      const hostPattern = routes.routePattern(name, locale);
+      if (hostPattern !== undefined) return hostPattern;
+    }
+
+    for (const { prefix, tree } of this.mounts) {
+      const mounted = tree.routePattern(name, locale);
+      if (mounted !== undefined) {
+        return mounted === "/" ? prefix : prefix + mounted;
+      }
+    }
+    return undefined;
+  }
+
+  private localizedPattern(
+    name: string,
+    pattern: string,
+    locale: string
+  ): string {
+    const [segments] = expandOptionalSegments(parsePattern(pattern));
+    const node = this.patternNode(segments);
+    const route =
+      node &&
+      Array.from(node.locales.values()).find(
+        (route) => route.paths[route.locale] === pattern
+      );
+    if (!route || !(locale in route.paths)) {
+      throw new Error(`Unknown locale "${locale}" for route "${name}"`);
+    }
+    return route.paths[locale];
+  }
+
+  // Records a param of the route being registered, checking its name
+  // against the one other routes already use at the same position
+  private claimParam(
+    path: string,
+    paramName: string,
+    sharedName: string,
+    sharedBy: { pattern: string },
+    names: ParamNames
+  ): void {
+    if (names.declared.has(paramName)) {
+      throw new Error(
+        `Invalid route path "${path}": Parameter ":${paramName}" is declared more than once`
+      );
+    }
+    names.declared.add(paramName);
+
+    const mountPrefix = names.reserved.get(paramName);
+    if (mountPrefix !== undefined) {
+      throw new Error(
+        `Conflicting parameter names in route "${path}": ":${paramName}" is already declared by the mount prefix "${mountPrefix}"`
+      );
+    }
+
+    if (sharedName !== paramName) {
+      if (!this.options.allowParamAliases) {
+        throw new Error(
+          `Conflicting parameter names in route "${path}": ":${paramName}" conflicts with ":${sharedName}" declared by route "${sharedBy.pattern}"`
+        );
+      }
+      names.aliases[sharedName] = paramName;
+    }
+
+    if (names.shared.has(sharedName)) {
+      throw new Error(
+        `Conflicting parameter names in route "${path}": ":${paramName}" would share the name ":${sharedName}" with another segment of the same route`
+      );
+    }
+    names.shared.add(sharedName);
+  }
+
+  // Keeps mixed children ordered by how much literal text they require,
+  // so "/:name.tar.gz" is tried before "/:name.:ext"
+  private insertMixedChild(
+    node: RouteNode<THandler>,
+    child: MixedChild<THandler>
+  ): void {
+    const literalLength = ({ segment }: MixedChild<THandler>) =>
+      segment.parts.reduce<number>(
+        (length, part) =>
+          typeof part === "string" ? length + part.length : length,
+        0
+      );
+
+    const index = node.mixedChildren.findIndex(
+      (other) => literalLength(other) < literalLength(child)
+    );
+    if (index === -1) {
+      node.mixedChildren.push(child);
+    } else {
+      node.mixedChildren.splice(index, 0, child);
+    }
+  }
+
+  // Params with the same constraint (or none) share one child
+  private findDynamicChild(
+    node: RouteNode<THandler>,
+    constraint?: ParamConstraint
+  ): DynamicChild<THandler> | undefined {
+    if (!constraint) return node.dynamicChild;
+    return node.constrainedChildren.find(
+      (child) => child.constraint!.source === constraint.source
+    );
+  }
+
+  get<TPath extends string>(
+    path: TPath,
+    handler: TypedHandler<THandler, TPath>,
+    options: Omit<AddRouteOptions, "method"> = {}
+  ): void {
+    this.addRoute(path, handler, { ...options, method: "GET" });
+  }
+
+  post<TPath extends string>(
+    path: TPath,
+    handler: TypedHandler<THandler, TPath>,
+    options: Omit<AddRouteOptions, "method"> = {}
+  ): void {
+    this.addRoute(path, handler, { ...options, method: "POST" });
+  }
+
+  put<TPath extends string>(
+    path: TPath,
+    handler: TypedHandler<THandler, TPath>,
+    options: Omit<AddRouteOptions, "method"> = {}
+  ): void {
+    this.addRoute(path, handler, { ...options, method: "PUT" });
+  }
+
+  patch<TPath extends string>(
+    path: TPath,
+    handler: TypedHandler<THandler, TPath>,
+    options: Omit<AddRouteOptions, "method"> = {}
+  ): void {
+    this.addRoute(path, handler, { ...options, method: "PATCH" });
+  }
+
+  delete<TPath extends string>(
+    path: TPath,
+    handler: TypedHandler<THandler, TPath>,
+    options: Omit<AddRouteOptions, "method"> = {}
+  ): void {
+    this.addRoute(path, handler, { ...options, method: "DELETE" });
+  }
+
+  // Handles every method, same as addRoute without a method option
+  all<TPath extends string>(
+    path: TPath,
+    handler: TypedHandler<THandler, TPath>,
+    options: Omit<AddRouteOptions, "method"> = {}
+  ): void {
+    this.addRoute(path, handler, options);
+  }
+
+  private normalizeRoutePath(path: string): string {
+    // Check for double slashes before any normalization
+    if (path.includes("//")) {
+      throw new Error(
+        `Invalid route path "${path}": Double slashes are not allowed`
+      );
+    }
+
+    // Normalize path by removing trailing slash unless it's the root path
+    // or trailing slashes are significant
+    if (
+      !this.options.strictTrailingSlash &&
+      path !== "/" &&
+      path.endsWith("/")
+    ) {
+      path = path.slice(0, -1);
+    }
+
+    return path;
+  }
+
+  // Key of a static segment in RouteNode.children
+  private staticKey(segment: string): string {
+    return this.options.caseSensitive === false
+      ? segment.toLowerCase()
+      : segment;
+  }
+
+  // Serves the routes of tree under prefix, e.g. "/admin" or "/orgs/:orgId".
+  // The trees share nodes, so routes added to or removed from tree later
+  // are reflected here, while this tree rejects changes below the prefix.
+  mount(prefix: string, tree: RouteTree<THandler, TContext>): void {
+    this.assertNotFrozen("mount trees");
+    const pattern = this.normalizeRoutePath(prefix);
+    const segments = parsePattern(pattern);
+    if (segments.length === 0) {
+      throw new Error(
+        `Invalid mount prefix "${pattern}": Trees can only be mounted below the root`
+      );
+    }
+    if (
+      segments.some(
+        (segment) =>
+          segment.type === "splat" ||
+          (segment.type === "param" && segment.optional)
+      )
+    ) {
+      throw new Error(
+        `Invalid mount prefix "${pattern}": Splat and optional segments cannot be mounted`
+      );
+    }
+    if (tree.contains(this)) {
+      throw new Error(
+        `Invalid mount prefix "${pattern}": A tree cannot be mounted inside itself`
+      );
+    }
+    if (tree.hosts.some(({ routes }) => !routes.root.isEmpty())) {
+      throw new Error(
+        `Invalid mount prefix "${pattern}": Trees with host routes cannot be mounted`
+      );
+    }
+    const option = matchingOptionNames.find(
+      (name) =>
+        (tree.options[name] ?? matchingOptions[name]) !==
+        (this.options[name] ?? matchingOptions[name])
+    );
+    if (option) {
+      throw new Error(
+        `Invalid mount prefix "${pattern}": Mounted trees must use the same ${option} option`
+      );
+    }
+
+    const names = this.paramNames();
+    const prefixParams: string[] = [];
+    for (const segment of segments) {
+      if (segment.type === "param") {
+        prefixParams.push(segment.name);
+      } else if (segment.type === "mixed") {
+        segment.parts.forEach((part) => {
+          if (typeof part !== "string") prefixParams.push(part.name);
+        });
+      }
+    }
+
+    tree.declaredParams(tree.root).forEach((name) => {
+      if (prefixParams.includes(name) || names.reserved.has(name)) {
+        throw new Error(
+          `Conflicting parameter names in mount "${pattern}": ":${name}" is declared by both the prefix and a mounted route`
+        );
+      }
+    });
+    for (const name of tree.namedRoutes()) {
+      const existing = this.routePattern(name);
+      if (existing !== undefined) {
+        throw new Error(
+          `Duplicate route name "${name}": Already used by route "${existing}"`
+        );
+      }
+    }
+
+    const created: Array<() => void> = [];
+    let parent = this.root;
+    let node: RouteNode<THandler>;
+    try {
+      for (const segment of segments.slice(0, -1)) {
+        parent = this.childNode(parent, segment, pattern, names, created);
+        this.assertNotMounted(pattern, parent);
+      }
+      const last = segments[segments.length - 1];
+      node = this.childNode(parent, last, pattern, names, created);
+      if (Object.keys(names.aliases).length > 0) {
+        throw new Error(
+          `Conflicting parameter names in mount "${pattern}": Params of a mount prefix cannot be aliased`
+        );
+      }
+      if (this.mountPoints.has(node) || !node.isEmpty()) {
+        throw new Error(
+          `Conflicting mount "${pattern}": Routes are already registered at or below the prefix`
+        );
+      }
+    } catch (error) {
+      rollBack(created);
+      throw error;
+    }
+
+    this.replaceChild(parent, node, tree.root);
+    // Middleware already added for the prefix now guards the mounted routes
+    const middleware = this.middleware.get(node);
+    if (middleware) {
+      this.middleware.delete(node);
+      this.middleware.set(tree.root, middleware);
+    }
+    this.mountPoints.set(tree.root, pattern);
+    this.mounts.push({ prefix: pattern, tree });
+    tree.mountedIn.push({ prefix: pattern, tree: this, params: prefixParams });
+    this.invalidate();
+  }
+
+  // Whether tree is this one or mounted into it, directly or not
+  private contains(tree: RouteTree<THandler, TContext>): boolean {
+    return (
+      tree === this || this.mounts.some((mount) => mount.tree.contains(tree))
+    );
+  }
+
+  // Every param name declared at or below node
+  private declaredParams(node: RouteNode<THandler>): Set<string> {
+    const names = new Set<string>();
+    const visit = (node: RouteNode<THandler>) => {
+      for (const name in node.paramAliases) {
+        names.add(node.paramAliases[name]);
+      }
+      node.children.forEach(visit);
+      node.mixedChildren.forEach((child) => {
+        child.paramNames.forEach((name) => names.add(name));
+        visit(child.node);
+      });
+      const dynamicChildren = node.dynamicChild
+        ? [...node.constrainedChildren, node.dynamicChild]
+        : node.constrainedChildren;
+      dynamicChildren.forEach((child) => {
+        names.add(child.paramName);
+        visit(child.node);
+      });
+      if (node.splatChild) visit(node.splatChild);
+    };
+    visit(node);
+    return names;
+  }
+
+  // Points the edge from parent to child at replacement instead
+  private replaceChild(
+    parent: RouteNode<THandler>,
+    child: RouteNode<THandler>,
+    replacement: RouteNode<THandler>
+  ): void {
+    parent.children.forEach((node, key) => {
+      if (node === child) {
+        replacement.literal = node.literal;
+        parent.children.set(key, replacement);
+      }
+    });
+    for (const dynamicChild of [
+      ...parent.mixedChildren,
+      ...parent.constrainedChildren,
+      ...(parent.dynamicChild ? [parent.dynamicChild] : []),
+    ]) {
+      if (dynamicChild.node === child) {
+        dynamicChild.node = replacement;
+      }
+    }
+  }
+
+  // Removes the route registered at path (only its handler for method, if
+  // given) and prunes nodes left empty. Returns whether anything was removed.
+  removeRoute(
+    path: string,
+    method?: string,
+    options: RemoveRouteOptions = {}
+  ): boolean {
+    this.assertNotFrozen("remove routes");
+    if (options.host !== undefined) {
+      const routes = this.routesOfHost(options.host);
+      return routes ? routes.removeRoute(path, method) : false;
+    }
+
+    const pattern = this.normalizeRoutePath(path);
+    const variants = expandOptionalSegments(parsePattern(pattern));
+
+    let removed = false;
+    for (const segments of variants) {
+      if (this.removeSegments(pattern, this.root, segments, method)) {
+        removed = true;
+      }
+    }
+
+    // Forget names of routes that no longer have any handler
+    this.routeNames.forEach((pattern, name) => {
+      if (!this.hasRoute(pattern)) {
+        this.routeNames.delete(name);
+      }
+    });
+    this.invalidate();
+    return removed;
+  }
+
+  // Whether a route is registered at path, matching the pattern itself
+  // (":id" finds any unconstrained param) rather than a concrete URL
+  hasRoute(
+    path: string,
+    method?: string,
+    options: RemoveRouteOptions = {}
+  ): boolean {
+    if (options.host !== undefined) {
+      const routes = this.routesOfHost(options.host);
+      return routes ? routes.hasRoute(path, method) : false;
+    }
+
+    const variants = expandOptionalSegments(
+      parsePattern(this.normalizeRoutePath(path))
+    );
+    return variants.every((segments) =>
+      this.hasSegments(segments, method?.toUpperCase())
+    );
+  }
+
+  private hasSegments(
+    segments: PatternSegment[],
+    method?: string,
+    index = false
+  ): boolean {
+    const node = this.patternNode(segments);
+    if (!node) return false;
+    if (index) return node.indexHandler !== undefined;
+    return method ? node.methodHandlers.has(method) : node.hasHandler();
+  }
+
+  // Node registered for the segments of a pattern, if any
+  private patternNode(
+    segments: PatternSegment[]
+  ): RouteNode<THandler> | undefined {
+    let node: RouteNode<THandler> | undefined = this.root;
+    for (const segment of segments) {
+      node = node && this.patternChild(node, segment);
+    }
+    return node;
+  }
+
+  private patternChild(
+    node: RouteNode<THandler>,
+    segment: PatternSegment
+  ): RouteNode<THandler> | undefined {
+    if (segment.type === "splat") return node.splatChild;
+    if (segment.type === "param") {
+      return this.findDynamicChild(node, segment.constraint)?.node;
+    }
+    if (segment.type === "mixed") {
+      return node.mixedChildren.find(
+        (child) => child.segment.key === segment.key
+      )?.node;
+    }
+    return node.children.get(this.staticKey(segment.value));
+  }
+
+  private removeSegments(
+    path: string,
+    node: RouteNode<THandler>,
+    segments: PatternSegment[],
+    method?: string
+  ): boolean {
+    if (segments.length === 0) {
+      return this.removeHandler(node, method);
+    }
+
+    const segment = segments[0];
+    const child = this.patternChild(node, segment);
+    if (child) {
+      this.assertNotMounted(path, child);
+    }
+    if (
+      !child ||
+      !this.removeSegments(path, child, segments.slice(1), method)
+    ) {
+      return false;
+    }
+
+    // Prune the child if the removal left it without routes or middleware
+    if (child.isEmpty() && !this.middleware.has(child)) {
+      if (segment.type === "splat") {
+        node.splatChild = undefined;
+      } else if (segment.type === "static") {
+        node.children.delete(this.staticKey(segment.value));
+      } else if (segment.type === "mixed") {
+        node.mixedChildren = node.mixedChildren.filter(
+          ({ node }) => node !== child
+        );
+      } else if (segment.constraint) {
+        node.constrainedChildren = node.constrainedChildren.filter(
+          ({ node }) => node !== child
+        );
+      } else {
+        node.dynamicChild = undefined;
+      }
+    }
+    return true;
+  }
+
+  private removeHandler(node: RouteNode<THandler>, method?: string): boolean {
+    let removed: boolean;
+    if (method) {
+      const upper = method.toUpperCase();
+      removed = node.methodHandlers.delete(upper);
+      const route = node.locales.get(upper);
+      if (route) this.forgetLocale(route, upper);
+      node.handlerIds.delete(upper);
+      node.meta.delete(upper);
+      node.loaders.delete(upper);
+      node.locales.delete(upper);
+      node.handlerPatterns.delete(upper);
+      node.replacedPatterns.delete(upper);
+    } else {
+      removed = node.hasHandler();
+      node.handler = undefined;
+      node.indexHandler = undefined;
+      node.methodHandlers.clear();
+      node.locales.forEach((route, slot) => this.forgetLocale(route, slot));
+      node.handlerIds.clear();
+      node.meta.clear();
+      node.loaders.clear();
+      node.locales.clear();
+      node.handlerPatterns.clear();
+      node.replacedPatterns.clear();
+    }
+
+    if (!node.hasHandler()) {
+      node.paramAliases = undefined;
+    }
+    return removed;
+  }
+
+  // Takes route's locale out of the localized route once its path no longer
+  // serves it, so the other locales' paths stop linking to it. Names that
+  // referred to the path move to the route's next locale.
+  private forgetLocale(route: RouteLocale, slot: string): void {
+    const path = route.paths[route.locale];
+    const others = Object.keys(route.paths).filter(
+      (locale) => locale !== route.locale
+    );
+    // Locales share paths unless loaded from a manifest
+    for (const locale of others) {
+      const otherPath = route.paths[locale];
+      for (const segments of expandOptionalSegments(parsePattern(otherPath))) {
+        const sibling = this.patternNode(segments)?.locales.get(slot);
+        if (sibling && sibling.paths[sibling.locale] === otherPath) {
+          delete sibling.paths[route.locale];
+        }
+      }
+    }
+    delete route.paths[route.locale];
+
+    if (path === undefined || others.length === 0) return;
+    this.routeNames.forEach((pattern, name) => {
+      if (pattern === path) {
+        this.routeNames.set(name, route.paths[others[0]]);
+      }
+    });
+  }
+
+  // Builds the URL of a named route, filling its :param and $ segments
+  href(
+    name: string,
+    params: Record<string, string | number> = {},
+    options: HrefOptions = {}
+  ): string {
+    const pattern = this.routePattern(name, options.locale);
+    if (pattern === undefined) {
+      throw new Error(`Unknown route name "${name}"`);
+    }
+    return (
+      this.fillPattern(pattern, params, `"${name}" ("${pattern}")`) +
+      this.toQueryString(options.query)
+    );
+  }
+
+  // Paths of the route url matches in each of its locales, e.g. for a
+  // language switcher or hreflang links. Empty unless the route was added
+  // with addLocalizedRoute.
+  alternates(url: string | URL): Record<string, string> {
+    const hostAlternates = this.findInHosts(url, (routes) =>
+      routes.match(url) ? routes.alternates(url) : undefined
+    );
+    if (hostAlternates) return hostAlternates;
+
+    const parsed = parseUrl(url);
+    const found = parsed && this.findNode(parsed.pathname);
+    const route =
+      found &&
+      found.node.locales.get(
+        found.node.indexHandler ? "index" : found.node.pageSlot()
+      );
+    if (!route) return {};
+
+    // Routes of mounted trees were added with paths relative to the mount
+    const prefixes = this.mountPrefixes();
+    let prefix = "";
+    found.trail.forEach(({ node }) => {
+      prefix = prefixes.get(node) ?? prefix;
+    });
+
+    const alternates: Record<string, string> = {};
+    for (const locale in route.paths) {
+      const path = route.paths[locale];
+      const pattern = prefix && path === "/" ? prefix : prefix + path;
+      alternates[locale] = this.fillPattern(
+        pattern,
+        found.params,
+        `"${pattern}"`
+      );
+    }
+    return alternates;
+  }
+
+  // Prefixes of the trees mounted into this one by their root node,
+  // including trees mounted into those
+  private mountPrefixes(): Map<RouteNode<THandler>, string> {
+    const prefixes = new Map(this.mountPoints);
+    for (const { prefix, tree } of this.mounts) {
+      tree.mountPrefixes().forEach((nested, node) => {
+        prefixes.set(node, prefix + nested);
+      });
+    }
+    return prefixes;
+  }
+
+  // Path of pattern with its :param and $ segments filled from params.
+  // route names the route in errors.
+  private fillPattern(
+    pattern: string,
+    params: Record<string, string | number>,
+    route: string
+  ): string {
+    const used = new Set<string>();
+    // The param's value as a string, checked against its constraint
+    const fill = (
+      paramName: string,
+      constraint?: ParamConstraint
+    ): string | undefined => {
+      const value = params[paramName];
+      if (value === undefined || value === "") return undefined;
+
+      if (constraint && !constraint.test(String(value))) {
+        throw new Error(
+          `Invalid param "${paramName}" for route ${route}: "${value}" does not satisfy ${constraint.source}`
+        );
+      }
+      used.add(paramName);
+      return String(value);
+    };
+    const missing = (paramName: string) =>
+      new Error(`Missing param "${paramName}" for route ${route}`);
+
+    const segments: string[] = [];
+    for (const segment of parsePattern(pattern)) {
+      if (segment.type === "static") {
+        segments.push(segment.value);
+      } else if (segment.type === "splat") {
+        const value = fill(SPLAT_PARAM);
+        if (value === undefined) throw missing(SPLAT_PARAM);
+        // Keep the slashes of the remainder, encoding each part of it
+        segments.push(value.split("/").map(encodeURIComponent).join("/"));
+      } else if (segment.type === "param") {
+        const value = fill(segment.name, segment.constraint);
+        if (value !== undefined) {
+          segments.push(encodeURIComponent(value));
+        } else if (!segment.optional) {
+          throw missing(segment.name);
+        }
+      } else {
+        const parts = segment.parts.map((part) => {
+          if (typeof part === "string") return part;
+          const value = fill(part.name, part.constraint);
+          if (value === undefined) throw missing(part.name);
+          return encodeURIComponent(value);
+        });
+        segments.push(parts.join(""));
+      }
+    }
+
+    for (const paramName in params) {
+      if (!used.has(paramName)) {
+        throw new Error(`Unexpected param "${paramName}" for route ${route}`);
+      }
+    }
+
+    return "/" + segments.join("/");
+  }
+
+  private toQueryString(query: HrefOptions["query"] = {}): string {
+    const pairs: string[] = [];
+    for (const key in query) {
+      const values = ([] as QueryValue[]).concat(query[key]);
+      for (const value of values) {
+        if (value === undefined || value === null) continue;
+        pairs.push(
+          `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`
+        );
+      }
+    }
+    return pairs.length > 0 ? `?${pairs.join("&")}` : "";
+  }
+
+  // Method-less lookups resolve to the route's handler for every method,
+  // falling back to its GET handler
+  // Accepts a path, which may carry a query and fragment, an absolute URL
+  // string or a URL object. Throws RouteDecodeError for malformed
+  // percent-encoding in the path.
+  match(url: string | URL): RouteMatch<THandler> | undefined;
+  match(
+    method: string,
+    url: string | URL
+  ): RouteMatch<THandler> | MethodMismatch | undefined;
+  match(
+    methodOrUrl: string | URL,
+    url?: string | URL
+  ): RouteMatch<THandler> | MethodMismatch | undefined {
+    return this.matchWith(undefined, this.hosts, methodOrUrl, url);
+  }
+
+  // Freezes this tree and the trees mounted into it, and returns a matcher
+  // with the same results as match for hot paths. Fully static routes are
+  // found with one map lookup, the rest by walking segments by index with
+  // params collected on shared stacks.
+  compile(): CompiledMatcher<THandler> {
+    this.freeze();
+    const staticRoutes: StaticRoutes<THandler> = new Map();
+    this.collectStaticRoutes(this.root, [], staticRoutes);
+    const hosts = this.hosts.map(({ pattern, routes }) => ({
+      pattern,
+      routes: routes.compile(),
+    }));
+
+    const match = (methodOrUrl: string | URL, url?: string | URL) =>
+      this.matchWith(staticRoutes, hosts, methodOrUrl, url);
+    return { match } as CompiledMatcher<THandler>;
+  }
+
+  private freeze(): void {
+    this.frozen = true;
+    this.mounts.forEach(({ tree }) => tree.freeze());
+  }
+
+  private collectStaticRoutes(
+    node: RouteNode<THandler>,
+    literals: string[],
+    staticRoutes: StaticRoutes<THandler>
+  ): void {
+    if (node.hasHandler()) {
+      const path = this.staticKey("/" + literals.join("/"));
+      staticRoutes.set(path, { node, canonical: literals });
+    }
+    node.children.forEach((child) => {
+      const literal = child.literal!;
+      this.collectStaticRoutes(child, [...literals, literal], staticRoutes);
+    });
+  }
+
+  private matchWith(
+    staticRoutes: StaticRoutes<THandler> | undefined,
+    hosts: HostRoutes<CompiledMatcher<THandler>>[],
+    methodOrUrl: string | URL,
+    url?: string | URL
+  ): RouteMatch<THandler> | MethodMismatch | undefined {
+    const hostMatch =
+      hosts.length > 0 ? this.matchHost(hosts, methodOrUrl, url) : undefined;
+    if (hostMatch) return hostMatch;
+
+    if (url === undefined) {
+      const parsed = parseUrl(methodOrUrl);
+      const found =
+        parsed && this.resolve(parsed.pathname, undefined, staticRoutes);
+      if (!found) return undefined;
+
+      return this.pageMatch(found, parsed);
+    }
+
+    const parsed = parseUrl(url);
+    const method = String(methodOrUrl).toUpperCase();
+    const found = parsed && this.resolve(parsed.pathname, method, staticRoutes);
+    if (!found) return undefined;
+
+    const { node, params, typed, splat, canonicalPath } = found;
+    const allowedMethods = node.allowedMethods();
+    const handler =
+      node.methodHandlers.get(method) ?? node.indexHandler ?? node.handler;
+    if (handler) {
+      const { query, hash } = parsed;
+      return {
+        handler,
+        params,
+        values: paramValues(params, typed),
+        query,
+        hash,
+        splat,
+        allowedMethods,
+        canonicalPath,
+        meta: node.meta.get(node.methodSlot(method)),
+        locale: node.locales.get(node.methodSlot(method))?.locale,
+      };
+    }
 
-  constructor(handler?: (params?: RouteParams) => string) {
-    this.handler = handler;
+    return {
+      params,
+      allowedMethods,
+      reason: method === "OPTIONS" ? "options" : "method-not-allowed",
+      canonicalPath,
+    };
   }
 
-  getNodeVisual(
-    prefix: string = "",
-    isLast: boolean = true,
-    path: string = ""
-  ): string {
-    const connector = isLast ? "└── " : "├── ";
-    const childPrefix = isLast ? "    " : "│   ";
-    let result = prefix + connector;
+  // Match among the routes of the hosts the URL's host fits, trying the most
+  // specific host first. A path known to a host's routes but not for the
+  // method is a mismatch there rather than falling back to other routes.
+  private matchHost(
+    hosts: HostRoutes<CompiledMatcher<THandler>>[],
+    methodOrUrl: string | URL,
+    url?: string | URL
+  ): RouteMatch<THandler> | MethodMismatch | undefined {
+    const hostname = parseHost(url ?? methodOrUrl);
+    if (hostname === undefined) return undefined;
 
-    // Add node information
-    if (this.handler) {
-      result += `${path || "/"} [✓]\n`;
-    } else {
-      result += `${path || "/"}\n`;
+    for (const { pattern, routes } of hosts) {
+      const hostParams = pattern.match(hostname);
+      if (!hostParams) continue;
+
+      const match =
+        url === undefined
+          ? routes.match(methodOrUrl)
+          : routes.match(String(methodOrUrl), url);
+      if (!match) continue;
+      if ("reason" in match) {
+        return { ...match, params: { ...hostParams, ...match.params } };
+      }
+      return {
+        ...match,
+        params: { ...hostParams, ...match.params },
+        values: { ...hostParams, ...match.values },
+      };
     }
+    return undefined;
+  }
 
-    // Process static children
-    const staticChildren = Array.from(this.children.entries());
-    const hasOtherChildren = this.dynamicChild || this.splatChild;
+  // Match of a method-agnostic request, preferring an index route
+  private pageMatch(
+    found: ResolvedNode<THandler>,
+    parsed: ParsedUrl
+  ): RouteMatch<THandler> | undefined {
+    const { node, params, typed, splat, canonicalPath } = found;
+    const handler = node.indexHandler ?? node.pageHandler();
+    if (!handler) return undefined;
 
-    staticChildren.forEach(([segment, node], index) => {
-      const isLastChild =
-        index === staticChildren.length - 1 && !hasOtherChildren;
-      const newPath = path ? `${path}/${segment}` : `/${segment}`;
-      result += node.getNodeVisual(prefix + childPrefix, isLastChild, newPath);
-    });
+    const { query, hash } = parsed;
+    const slot = node.indexHandler ? "index" : node.pageSlot();
+    const meta = node.meta.get(slot);
+    const locale = node.locales.get(slot)?.locale;
+    const values = paramValues(params, typed);
+    return {
+      handler,
+      params,
+      values,
+      query,
+      hash,
+      splat,
+      canonicalPath,
+      meta,
+      locale,
+    };
+  }
 
-    // Process dynamic child
-    if (this.dynamicChild) {
-      const isLastChild = !this.splatChild;
-      const paramPath = path
-        ? `${path}/:<${this.dynamicChild.paramName}>`
-        : `/:<${this.dynamicChild.paramName}>`;
-      result += this.dynamicChild.node.getNodeVisual(
-        prefix + childPrefix,
-        isLastChild,
-        paramPath
-      );
+  // Attaches middleware to every route at or below prefix ("/admin", or
+  // "/admin/$" to the same effect). Dispatch runs the middleware of the
+  // matched route's ancestors from the root down, in the order added.
+  use(prefix: string, middleware: Middleware<TContext, THandler>): void {
+    this.assertNotFrozen("add middleware");
+    let pattern = this.normalizeRoutePath(prefix);
+    if (pattern.endsWith("/$")) {
+      pattern = pattern.slice(0, -2) || "/";
     }
 
-    // Process splat child
-    if (this.splatChild) {
-      const splatPath = path ? `${path}/*` : "/*";
-      result += this.splatChild.getNodeVisual(
-        prefix + childPrefix,
-        true,
-        splatPath
+    const segments = parsePattern(pattern);
+    if (
+      segments.some(
+        (segment) =>
+          segment.type === "splat" ||
+          (segment.type === "param" && segment.optional)
+      )
+    ) {
+      throw new Error(
+        `Invalid middleware prefix "${prefix}": Splat and optional segments can only guard the routes below them`
       );
     }
 
-    return result;
+    const names = this.paramNames();
+    const created: Array<() => void> = [];
+    let node = this.root;
+    try {
+      for (const segment of segments) {
+        this.assertNotMounted(pattern, node);
+        node = this.childNode(node, segment, pattern, names, created);
+      }
+    } catch (error) {
+      rollBack(created);
+      throw error;
+    }
+
+    const chain = this.middleware.get(node) ?? [];
+    chain.push(middleware);
+    this.middleware.set(node, chain);
   }
-}
 
-export class RouteTree {
-  private root: RouteNode = new RouteNode();
+  // Matches url like match, runs the middleware guarding the route with
+  // context, then the handler with its params and context unless a
+  // middleware redirected or denied
+  async dispatch(
+    url: string | URL,
+    context: TContext
+  ): Promise<DispatchResult<THandler, TContext> | undefined> {
+    const parsed = parseUrl(url);
+    const found = parsed && this.findNode(parsed.pathname);
+    if (!found) return undefined;
 
-  addRoute(path: string, handler: (params?: RouteParams) => string): void {
-    // Check for double slashes before any normalization
-    if (path.includes("//")) {
-      throw new Error(
-        `Invalid route path "${path}": Double slashes are not allowed`
-      );
-    }
+    const match = this.pageMatch(found, parsed);
+    if (!match) return undefined;
 
-    // Normalize path by removing trailing slash unless it's the root path
-    if (path !== "/" && path.endsWith("/")) {
-      path = path.slice(0, -1);
+    const chain: Middleware<TContext, THandler>[] = [];
+    for (const { node } of found.trail) {
+      chain.push(...this.middlewareAt(node));
+    }
+    const outcome = await runMiddleware(chain, context, match);
+    if (outcome.type !== "allow") {
+      return { match, outcome, context };
     }
 
-    const segments = path.split("/");
-    // Remove first empty segment from leading slash
-    segments.shift();
-    let current = this.root;
+    const handler: unknown = match.handler;
+    const result =
+      typeof handler === "function"
+        ? ((await handler(match.params, context)) as HandlerResult<THandler>)
+        : undefined;
+    return { match, outcome, context, result };
+  }
 
-    if (path === "/") {
-      current.handler = handler;
-      return;
+  // Middleware added at node by this tree, then by the trees mounted into it
+  private middlewareAt(
+    node: RouteNode<THandler>
+  ): Middleware<TContext, THandler>[] {
+    const chain = [...(this.middleware.get(node) ?? [])];
+    for (const { tree } of this.mounts) {
+      chain.push(...tree.middlewareAt(node));
     }
+    return chain;
+  }
 
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
+  // Every route along the matched path that renders as a layout or page,
+  // from the root down, e.g. "/pos", "/pos/:user" and "/pos/:user/profile"
+  // for "/pos/ada/profile". Returns undefined unless the path itself has a
+  // page or index route.
+  matchBranch(url: string | URL): RouteBranchEntry<THandler>[] | undefined {
+    const hostBranch = this.findInHosts(url, (routes, hostParams) =>
+      routes.matchBranch(url)?.map((entry) => ({
+        ...entry,
+        params: { ...hostParams, ...entry.params },
+      }))
+    );
+    if (hostBranch) return hostBranch;
 
-      if (segment === "$") {
-        // Splat route - matches everything after
-        if (!current.splatChild) {
-          current.splatChild = new RouteNode();
-        }
-        current.splatChild.handler = handler;
-        return;
-      } else if (segment.startsWith(":")) {
-        // Dynamic segment
-        const paramName = segment.slice(1);
-        if (!current.dynamicChild) {
-          current.dynamicChild = {
-            node: new RouteNode(),
-            paramName,
-          };
-        }
-        if (i === segments.length - 1) {
-          current.dynamicChild.node.handler = handler;
-        }
-        current = current.dynamicChild.node;
-      } else {
-        // Static segment
-        if (!current.children.has(segment)) {
-          current.children.set(segment, new RouteNode());
-        }
-        if (i === segments.length - 1) {
-          current.children.get(segment)!.handler = handler;
-        }
-        current = current.children.get(segment)!;
+    const parsed = parseUrl(url);
+    const found = parsed && this.findNode(parsed.pathname);
+    if (!found) return undefined;
+
+    const { node, trail } = found;
+    if (!node.indexHandler && !node.pageHandler()) return undefined;
+    const segments = found.segments!;
+
+    const branch: RouteBranchEntry<THandler>[] = [];
+    for (const step of trail) {
+      const pathname =
+        "/" + segments.slice(0, segments.length - step.remaining).join("/");
+      const params = this.applyAliases(step.node, step.params);
+
+      const handler = step.node.pageHandler();
+      if (handler) {
+        const slot = step.node.pageSlot();
+        branch.push({
+          handler,
+          params,
+          pathname,
+          meta: step.node.meta.get(slot),
+          loader: step.node.loaders.get(slot),
+        });
+      }
+      if (step.node === node && node.indexHandler) {
+        branch.push({
+          handler: node.indexHandler,
+          params,
+          pathname,
+          index: true,
+          meta: node.meta.get("index"),
+          loader: node.loaders.get("index"),
+        });
       }
     }
+    return branch;
+  }
+
+  // Traces how match resolves the pathname of url: every candidate segment
+  // it tries, in order, and why it was accepted or rejected
+  explain(url: string | URL): RouteExplanation {
+    const hostExplanation = this.findInHosts(url, (routes, hostParams) => {
+      const explanation = routes.explain(url);
+      return explanation.pattern === undefined
+        ? undefined
+        : { ...explanation, params: { ...hostParams, ...explanation.params } };
+    });
+    if (hostExplanation) return hostExplanation;
+
+    const steps: ExplainStep[] = [];
+    const parsed = parseUrl(url);
+    const found =
+      parsed && this.findNode(parsed.pathname, undefined, undefined, steps);
+    if (!found) return { steps };
+
+    // Matching stops at the step that accepted the route
+    const last = steps[steps.length - 1];
+    return { steps, pattern: last.pattern, params: found.params };
+  }
+
+  // findNode through the match cache. Cached params are frozen, as every
+  // match of the path shares them.
+  private resolve(
+    path: string,
+    method: string | undefined,
+    staticRoutes?: StaticRoutes<THandler>
+  ): ResolvedNode<THandler> | undefined {
+    if (!this.cache) {
+      return this.findMethodNode(path, method, staticRoutes);
+    }
+
+    const key = method === undefined ? path : `${method} ${path}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached ?? undefined;
+    }
+
+    const found = this.findMethodNode(path, method, staticRoutes);
+    if (!found) {
+      this.cache.set(key, null);
+      return undefined;
+    }
+
+    const { node, params, typed, splat, canonicalPath } = found;
+    Object.freeze(params);
+    if (splat) Object.freeze(splat);
+    const resolved = { node, params, typed, splat, canonicalPath };
+    this.cache.set(key, resolved);
+    return resolved;
+  }
+
+  // A match with a method ends at the first route with a handler for it.
+  // Only without one does it end at the first route with any handler, which
+  // answers with a MethodMismatch.
+  private findMethodNode(
+    path: string,
+    method: string | undefined,
+    staticRoutes?: StaticRoutes<THandler>
+  ): NodeMatch<THandler> | undefined {
+    const found = this.findNode(path, method, staticRoutes);
+    if (found || method === undefined) return found;
+    return this.findNode(path, ANY_METHOD, staticRoutes);
   }
 
-  match(path: string): RouteMatch | undefined {
+  // Without a method, only page and index routes end a match (see
+  // RouteNode.endsMatch)
+  private findNode(
+    path: string,
+    method?: string,
+    staticRoutes?: StaticRoutes<THandler>,
+    trace?: ExplainStep[]
+  ): NodeMatch<THandler> | undefined {
     // Ensure path starts with a slash
     if (!path.startsWith("/")) {
       return undefined;
     }
+    const { mergeSlashes = true, strictTrailingSlash = false } = this.options;
+    let normalized = path;
 
     // Normalize double slashes to single slashes
-    path = path.replace(/\/+/g, "/");
+    if (mergeSlashes && normalized.includes("//")) {
+      normalized = normalized.replace(/\/+/g, "/");
+    }
 
     // Normalize path by removing trailing slash unless it's the root path
-    if (path !== "/" && path.endsWith("/")) {
-      path = path.slice(0, -1);
+    if (
+      !strictTrailingSlash &&
+      normalized !== "/" &&
+      normalized.endsWith("/")
+    ) {
+      normalized = normalized.slice(0, -1);
     }
 
-    const segments = path.split("/");
-    // Remove first empty segment from leading slash
-    segments.shift();
+    const segments = normalized === "/" ? [] : normalized.split("/").slice(1);
 
-    if (path === "/") {
-      return this.root.handler
-        ? { handler: this.root.handler, params: {} }
-        : undefined;
+    // Decode after splitting so an encoded slash never starts a new segment.
+    // A root splat route is tried by matchSegments like any other splat, so
+    // there is no separate fallback that could drop the captured params.
+    let match: NodeMatch<THandler> | undefined;
+    if (!staticRoutes) {
+      match = this.matchSegments(
+        segments.map(decodeSegment),
+        this.root,
+        method,
+        {},
+        {},
+        trace && { steps: trace, path: "", total: segments.length }
+      );
+    } else {
+      // Encoded paths skip the static lookup, as its keys are decoded
+      const route = path.includes("%")
+        ? undefined
+        : staticRoutes.get(this.staticKey(normalized));
+      match =
+        route && route.node.endsMatch(method)
+          ? {
+              node: route.node,
+              params: {},
+              typed: {},
+              canonical: route.canonical,
+              trail: [],
+            }
+          : this.matchCompiled(
+              segments.map(decodeSegment),
+              0,
+              this.root,
+              method,
+              [],
+              [],
+              [],
+              new Array(segments.length)
+            );
     }
+    if (!match) return undefined;
 
-    const result = this.matchSegments(segments, this.root);
-
-    // If no specific match found and we have a root splat route, use that
-    if (!result && this.root.splatChild?.handler && path.startsWith("/")) {
-      return {
-        handler: this.root.splatChild.handler,
-        params: {},
-      };
+    // Only build the canonical path when the request differs from it
+    const { canonical } = match;
+    if (
+      normalized !== path ||
+      canonical.some(
+        (literal, index) => literal !== undefined && literal !== segments[index]
+      )
+    ) {
+      match.canonicalPath =
+        "/" +
+        canonical.map((literal, index) => literal ?? segments[index]).join("/");
     }
-
-    return result;
+    match.segments = segments;
+    return match;
   }
 
   private matchSegments(
     segments: string[],
-    node: RouteNode,
-    params: RouteParams = {}
-  ): RouteMatch | undefined {
+    node: RouteNode<THandler>,
+    method: string | undefined,
+    params: RouteParams = {},
+    typed: ParamTypes = {},
+    trace?: MatchTrace
+  ): NodeMatch<THandler> | undefined {
     if (segments.length === 0) {
-      return node.handler ? { handler: node.handler, params } : undefined;
+      const found = node.endsMatch(method);
+      if (trace) {
+        trace.steps.push({
+          depth: trace.total,
+          kind: "end",
+          pattern: trace.path || "/",
+          outcome: found ? "accepted" : "rejected",
+          reason: found ? "A route ends here" : "No route ends here",
+        });
+      }
+      return found
+        ? {
+            node,
+            params: this.applyAliases(node, params),
+            typed: this.applyAliases(node, typed),
+            canonical: [],
+            trail: [{ node, params, remaining: 0 }],
+          }
+        : undefined;
     }
 
     const segment = segments[0];
     const remaining = segments.slice(1);
 
     // Try static match first
-    if (node.children.has(segment)) {
+    const staticChild = node.children.get(this.staticKey(segment));
+    if (staticChild) {
+      const childTrace =
+        trace &&
+        this.traceCandidate(trace, segments, "static", staticChild.literal!);
       const match = this.matchSegments(
         remaining,
-        node.children.get(segment)!,
-        params
+        staticChild,
+        method,
+        params,
+        typed,
+        childTrace
       );
-      if (match) return match;
+      if (childTrace) this.settleCandidate(childTrace, match);
+      if (match) {
+        const { literal } = staticChild;
+        return this.extendMatch(match, node, params, segments, literal);
+      }
+    }
+
+    // Params and splats never match an empty segment, which only appears
+    // with strictTrailingSlash or without mergeSlashes
+    if (segment === "") {
+      return undefined;
+    }
+
+    // Try segments mixing literals and params, most specific first
+    for (const child of node.mixedChildren) {
+      const values = child.segment.match(segment);
+      const childTrace =
+        trace &&
+        this.traceCandidate(
+          trace,
+          segments,
+          "mixed",
+          mixedSegmentText(child),
+          values ? undefined : `"${segment}" doesn't fit the segment`
+        );
+      if (!values) continue;
+
+      const mixedParams = { ...params };
+      const mixedTyped = { ...typed };
+      child.paramNames.forEach((paramName, index) => {
+        mixedParams[paramName] = values[index];
+        const constraint = child.paramTypes[index];
+        if (constraint) mixedTyped[paramName] = constraint;
+      });
+      const match = this.matchSegments(
+        remaining,
+        child.node,
+        method,
+        mixedParams,
+        mixedTyped,
+        childTrace
+      );
+      if (childTrace) this.settleCandidate(childTrace, match);
+      if (match) return this.extendMatch(match, node, params, segments);
+    }
+
+    // Try constrained params, falling through when the value doesn't fit
+    for (const child of node.constrainedChildren) {
+      const fits = child.constraint!.test(segment);
+      const childTrace =
+        trace &&
+        this.traceCandidate(
+          trace,
+          segments,
+          "param",
+          dynamicSegmentText(child),
+          fits
+            ? undefined
+            : `"${segment}" doesn't fit ${child.constraint!.source}`
+        );
+      if (!fits) continue;
+
+      const dynamicParams = { ...params, [child.paramName]: segment };
+      const dynamicTyped = { ...typed, [child.paramName]: child.constraint! };
+      const match = this.matchSegments(
+        remaining,
+        child.node,
+        method,
+        dynamicParams,
+        dynamicTyped,
+        childTrace
+      );
+      if (childTrace) this.settleCandidate(childTrace, match);
+      if (match) return this.extendMatch(match, node, params, segments);
     }
 
     // Try dynamic match
     if (node.dynamicChild) {
+      const childTrace =
+        trace &&
+        this.traceCandidate(
+          trace,
+          segments,
+          "param",
+          dynamicSegmentText(node.dynamicChild)
+        );
       const dynamicParams = { ...params };
       dynamicParams[node.dynamicChild.paramName] = segment;
       const match = this.matchSegments(
         remaining,
         node.dynamicChild.node,
-        dynamicParams
+        method,
+        dynamicParams,
+        typed,
+        childTrace
       );
-      if (match) return match;
+      if (childTrace) this.settleCandidate(childTrace, match);
+      if (match) return this.extendMatch(match, node, params, segments);
     }
 
     // Try splat match at current level
-    if (node.splatChild?.handler) {
+    if (node.splatChild?.endsMatch(method)) {
+      trace?.steps.push({
+        depth: trace.total - segments.length,
+        segment,
+        kind: "splat",
+        pattern: `${trace.path}/$`,
+        outcome: "accepted",
+        reason: `Captures "${segments.join("/")}"`,
+      });
+      const splatParams = { ...params, [SPLAT_PARAM]: segments.join("/") };
       return {
-        handler: node.splatChild.handler,
-        params,
+        node: node.splatChild,
+        params: this.applyAliases(node.splatChild, splatParams),
+        typed: this.applyAliases(node.splatChild, typed),
+        splat: segments,
+        canonical: segments.map(() => undefined),
+        trail: [
+          { node, params, remaining: segments.length },
+          { node: node.splatChild, params: splatParams, remaining: 0 },
+        ],
+      };
+    }
+
+    return undefined;
+  }
+
+  // Records a candidate tried for the first of segments, rejected with
+  // rejection if given, and returns the trace to match below it with
+  private traceCandidate(
+    trace: MatchTrace,
+    segments: string[],
+    kind: ExplainStep["kind"],
+    text: string,
+    rejection?: string
+  ): MatchTrace {
+    const path = `${trace.path}/${text}`;
+    const candidate: ExplainStep = {
+      depth: trace.total - segments.length,
+      segment: segments[0],
+      kind,
+      pattern: path,
+      outcome: rejection ? "rejected" : "accepted",
+      reason: rejection ?? `Matches "${segments[0]}"`,
+    };
+    trace.steps.push(candidate);
+    return { ...trace, path, candidate };
+  }
+
+  // Rejects the candidate of trace when nothing below it matched
+  private settleCandidate(trace: MatchTrace, match: unknown): void {
+    if (!match) {
+      trace.candidate!.outcome = "rejected";
+      trace.candidate!.reason = "Nothing below it matches the rest of the path";
+    }
+  }
+
+  // matchSegments for compiled matchers, trying children in the same order
+  // without copying segments or params at each level. Names, values and
+  // constraints of the params matched so far are kept on stacks, literals by
+  // segment index.
+  private matchCompiled(
+    segments: string[],
+    index: number,
+    node: RouteNode<THandler>,
+    method: string | undefined,
+    names: string[],
+    values: string[],
+    types: Array<ParamConstraint | undefined>,
+    literals: Array<string | undefined>
+  ): NodeMatch<THandler> | undefined {
+    if (index === segments.length) {
+      if (!node.endsMatch(method)) return undefined;
+      const { params, typed } = this.slotParams(names, values, types);
+      return {
+        node,
+        params: this.applyAliases(node, params),
+        typed: this.applyAliases(node, typed),
+        canonical: literals.slice(),
+        trail: [],
+      };
+    }
+
+    const segment = segments[index];
+    const next = index + 1;
+
+    const staticChild = node.children.get(this.staticKey(segment));
+    if (staticChild) {
+      literals[index] = staticChild.literal;
+      const match = this.matchCompiled(
+        segments,
+        next,
+        staticChild,
+        method,
+        names,
+        values,
+        types,
+        literals
+      );
+      if (match) return match;
+    }
+
+    if (segment === "") {
+      return undefined;
+    }
+    literals[index] = undefined;
+    const depth = names.length;
+
+    for (const child of node.mixedChildren) {
+      const mixedValues = child.segment.match(segment);
+      if (!mixedValues) continue;
+
+      names.push(...child.paramNames);
+      values.push(...mixedValues);
+      types.push(...child.paramTypes);
+      const match = this.matchCompiled(
+        segments,
+        next,
+        child.node,
+        method,
+        names,
+        values,
+        types,
+        literals
+      );
+      if (match) return match;
+      names.length = values.length = types.length = depth;
+    }
+
+    for (const child of node.constrainedChildren) {
+      if (!child.constraint!.test(segment)) continue;
+
+      names.push(child.paramName);
+      values.push(segment);
+      types.push(child.constraint);
+      const match = this.matchCompiled(
+        segments,
+        next,
+        child.node,
+        method,
+        names,
+        values,
+        types,
+        literals
+      );
+      if (match) return match;
+      names.length = values.length = types.length = depth;
+    }
+
+    if (node.dynamicChild) {
+      names.push(node.dynamicChild.paramName);
+      values.push(segment);
+      types.push(undefined);
+      const match = this.matchCompiled(
+        segments,
+        next,
+        node.dynamicChild.node,
+        method,
+        names,
+        values,
+        types,
+        literals
+      );
+      if (match) return match;
+      names.length = values.length = types.length = depth;
+    }
+
+    if (node.splatChild?.endsMatch(method)) {
+      const splat = segments.slice(index);
+      const { params, typed } = this.slotParams(names, values, types);
+      params[SPLAT_PARAM] = splat.join("/");
+      literals.fill(undefined, index);
+      return {
+        node: node.splatChild,
+        params: this.applyAliases(node.splatChild, params),
+        typed: this.applyAliases(node.splatChild, typed),
+        splat,
+        canonical: literals.slice(),
+        trail: [],
       };
     }
 
     return undefined;
   }
 
-  // Returns a visual representation of the route tree
-  toVisualTree(): string {
-    return "Route Tree Structure:\n" + this.root.getNodeVisual();
+  private slotParams(
+    names: string[],
+    values: string[],
+    types: Array<ParamConstraint | undefined>
+  ): { params: RouteParams; typed: ParamTypes } {
+    const params: RouteParams = {};
+    const typed: ParamTypes = {};
+    for (let i = 0; i < names.length; i++) {
+      params[names[i]] = values[i];
+      const constraint = types[i];
+      if (constraint) typed[names[i]] = constraint;
+    }
+    return { params, typed };
+  }
+
+  // Adds the segment node consumed to reach a match found below it. Params
+  // match the requested segment as written, so only statics have a literal.
+  private extendMatch(
+    match: NodeMatch<THandler>,
+    node: RouteNode<THandler>,
+    params: RouteParams,
+    segments: string[],
+    literal?: string
+  ): NodeMatch<THandler> {
+    match.canonical.unshift(literal);
+    match.trail.unshift({ node, params, remaining: segments.length });
+    return match;
+  }
+
+  // Renames shared param names to the ones declared by the matched route
+  private applyAliases<TValue>(
+    node: RouteNode<THandler>,
+    params: Record<string, TValue>
+  ): Record<string, TValue> {
+    if (!node.paramAliases) return params;
+
+    const renamed: Record<string, TValue> = {};
+    for (const name in params) {
+      renamed[node.paramAliases[name] ?? name] = params[name];
+    }
+    return renamed;
+  }
+
+  // Returns a visual representation of the route tree, by default as a
+  // box-drawing text tree
+  toVisualTree(options: VisualTreeOptions = {}): string {
+    return renderVisualTree(
+      this.visualNode(this.root, "root", "", "", options),
+      options.format
+    );
+  }
+
+  private visualNode(
+    node: RouteNode<THandler>,
+    kind: RouteSegmentKind,
+    segment: string,
+    path: string,
+    options: VisualTreeOptions
+  ): VisualNode {
+    const children = this.childSteps(node)
+      .filter(
+        ({ kind }) =>
+          !(options.hideDynamic && (kind === "param" || kind === "mixed")) &&
+          !(options.hideSplats && kind === "splat")
+      )
+      .map((step) =>
+        this.visualNode(
+          step.node,
+          step.kind,
+          // Params are shown as ":<name>" and the splat as "*"
+          step.kind === "splat" ? "*" : step.text((name) => `<${name}>`),
+          `${path}/${step.text(sameName)}`,
+          options
+        )
+      );
+
+    const visual: VisualNode = {
+      segment,
+      pattern: path || "/",
+      kind,
+      handler: node.handler !== undefined,
+      index: node.indexHandler !== undefined,
+      methods: Array.from(node.methodHandlers.keys()),
+      children,
+    };
+    const [route] = Array.from(node.locales.values());
+    if (route) {
+      visual.locale = route.locale;
+      visual.paths = { ...route.paths };
+    }
+    return visual;
+  }
+
+  // Every registered route of this tree and the trees mounted into it, in
+  // the order walk visits them, followed by the host routes
+  routes(): RouteInfo[] {
+    const routes: RouteInfo[] = [];
+    this.walk(({ route }) => {
+      if (route) routes.push(route);
+    });
+    return routes;
+  }
+
+  // Visits the nodes of the tree depth-first, in the order match tries
+  // them, then those of the host routes. Returning false from visitor skips
+  // the children of a node.
+  walk(visitor: (entry: RouteWalkEntry) => boolean | void): void {
+    this.walkTree(visitor);
+    this.hosts.forEach(({ pattern, routes }) => {
+      const host = pattern.source;
+      routes.walkTree((entry) =>
+        visitor({
+          ...entry,
+          host,
+          route: entry.route && { ...entry.route, host },
+        })
+      );
+    });
+  }
+
+  private walkTree(visitor: (entry: RouteWalkEntry) => boolean | void): void {
+    const names = new Map<RouteNode<THandler>, string>();
+    this.namedRoutes(false).forEach((name) => {
+      const pattern = this.routePattern(name)!;
+      for (const segments of expandOptionalSegments(parsePattern(pattern))) {
+        const node = this.patternNode(segments);
+        if (node && !names.has(node)) names.set(node, name);
+      }
+    });
+
+    const root: WalkStep<THandler> = {
+      node: this.root,
+      kind: "root",
+      text: () => "",
+      params: [],
+    };
+    this.walkNode([root], visitor, names);
+  }
+
+  private walkNode(
+    steps: WalkStep<THandler>[],
+    visitor: (entry: RouteWalkEntry) => boolean | void,
+    names: Map<RouteNode<THandler>, string>
+  ): void {
+    const { node, kind } = steps[steps.length - 1];
+    // Routes registered here may have declared other names for the params
+    const rename = (name: string) => node.paramAliases?.[name] ?? name;
+    const segments = steps.slice(1).map((step) => step.text(rename));
+    const entry: RouteWalkEntry = {
+      pattern: "/" + segments.join("/"),
+      segment: segments.length > 0 ? segments[segments.length - 1] : "",
+      kind,
+      depth: segments.length,
+    };
+
+    if (node.hasHandler()) {
+      const params: string[] = [];
+      steps.forEach((step) => params.push(...step.params.map(rename)));
+      const methods = Array.from(node.methodHandlers.keys());
+      if (node.handler !== undefined) methods.unshift("*");
+      const ids: Record<string, string> = {};
+      node.handlerIds.forEach((id, slot) => {
+        ids[slot] = id;
+      });
+      const meta: Record<string, RouteMeta> = {};
+      node.meta.forEach((value, slot) => {
+        meta[slot] = value;
+      });
+
+      entry.route = {
+        pattern: entry.pattern,
+        kind:
+          kind === "splat" ? "splat" : params.length > 0 ? "dynamic" : "static",
+        params,
+        depth: entry.depth,
+        methods,
+        index: node.indexHandler !== undefined,
+        ids,
+      };
+      const name = names.get(node);
+      if (name !== undefined) entry.route.name = name;
+      if (node.meta.size > 0) entry.route.meta = meta;
+      if (node.locales.size > 0) {
+        const locales: Record<string, string> = {};
+        node.locales.forEach(({ locale }, slot) => {
+          locales[slot] = locale;
+        });
+        entry.route.locales = locales;
+      }
+    }
+
+    if (visitor(entry) === false) return;
+    for (const step of this.childSteps(node)) {
+      this.walkNode([...steps, step], visitor, names);
+    }
+  }
+
+  // Children of node in the order match tries them
+  private childSteps(node: RouteNode<THandler>): WalkStep<THandler>[] {
+    const steps: WalkStep<THandler>[] = [];
+    node.children.forEach((child) => {
+      steps.push({
+        node: child,
+        kind: "static",
+        text: () => child.literal!,
+        params: [],
+      });
+    });
+    node.mixedChildren.forEach((child) => {
+      steps.push({
+        node: child.node,
+        kind: "mixed",
+        text: (rename) => mixedSegmentText(child, rename),
+        params: child.paramNames,
+      });
+    });
+    const dynamicChildren = node.dynamicChild
+      ? [...node.constrainedChildren, node.dynamicChild]
+      : node.constrainedChildren;
+    dynamicChildren.forEach((child) => {
+      steps.push({
+        node: child.node,
+        kind: "param",
+        text: (rename) => dynamicSegmentText(child, rename),
+        params: [child.paramName],
+      });
+    });
+    if (node.splatChild) {
+      steps.push({
+        node: node.splatChild,
+        kind: "splat",
+        text: () => "$",
+        params: [],
+      });
+    }
+    return steps;
+  }
+
+  // Checks the routes of this tree, including mounted ones, for mistakes
+  // such as routes that can never be reached. Findings are reported in tree
+  // order, so CI can fail on errors or warnings.
+  lint(): LintFinding[] {
+    const findings: LintFinding[] = [];
+    this.lintNode(this.root, "", findings);
+    this.hosts.forEach(({ pattern, routes }) => {
+      routes.lint().forEach((finding) => {
+        findings.push({ ...finding, host: pattern.source });
+      });
+    });
+    return findings;
+  }
+
+  private lintNode(
+    node: RouteNode<THandler>,
+    path: string,
+    findings: LintFinding[]
+  ): void {
+    const pattern = path || "/";
+
+    node.replacedPatterns.forEach((replaced, slot) => {
+      const current = node.handlerPatterns.get(slot) ?? pattern;
+      const previous = replaced.filter(
+        (other, index) => replaced.indexOf(other) === index
+      );
+      const kind = slot === "*" ? "handler" : `${slot} handler`;
+      findings.push({
+        severity: "warning",
+        code: "overwritten-handler",
+        message: `Route "${current}" replaced the ${kind} of ${previous
+          .map((other) => `"${other}"`)
+          .join(", ")}`,
+        patterns: [current, ...previous],
+      });
+    });
+
+    if (node.paramAliases) {
+      const declared = node.handlerPatterns.values().next().value ?? pattern;
+      const aliases = Object.keys(node.paramAliases).map(
+        (shared) => `":${node.paramAliases![shared]}" for ":${shared}"`
+      );
+      findings.push({
+        severity: "warning",
+        code: "param-aliases",
+        message: `Route "${declared}" names params differently than the routes sharing its segments: ${aliases.join(", ")}`,
+        patterns: [declared, pattern],
+      });
+    }
+
+    const dynamicChildren = node.dynamicChild
+      ? [...node.constrainedChildren, node.dynamicChild]
+      : node.constrainedChildren;
+    const dynamicPath = (child: DynamicChild<THandler>) =>
+      `${path}/${dynamicSegmentText(child)}`;
+
+    // Params are tried in order, so a param that accepts every value of a
+    // later one takes all of its requests
+    dynamicChildren.forEach((child, index) => {
+      const shadowing = dynamicChildren
+        .slice(0, index)
+        .find(
+          (other) =>
+            other.node.hasHandler() &&
+            constraintSubsumes(other.constraint, child.constraint)
+        );
+      if (shadowing && child.node.hasHandler()) {
+        findings.push({
+          severity: "error",
+          code: "unreachable",
+          message: `Route "${dynamicPath(child)}" can never be reached: "${dynamicPath(shadowing)}" matches every value of its param first`,
+          patterns: [dynamicPath(child), dynamicPath(shadowing)],
+        });
+      }
+    });
+
+    const paramNames = dynamicChildren.map(({ paramName }) => paramName);
+    if (paramNames.some((name) => name !== paramNames[0])) {
+      findings.push({
+        severity: "info",
+        code: "param-names",
+        message: `Params below "${pattern}" use different names for the same segment: ${dynamicChildren
+          .map((child) => `":${child.paramName}"`)
+          .join(", ")}`,
+        patterns: dynamicChildren.map(dynamicPath),
+      });
+    }
+
+    if (node.splatChild?.hasHandler()) {
+      const splatPath = `${path}/$`;
+      const catchAll = dynamicChildren.find(
+        (child) =>
+          child.node.hasHandler() &&
+          constraintSubsumes(child.constraint, undefined)
+      );
+      if (catchAll) {
+        findings.push({
+          severity: "warning",
+          code: "splat-shadowed",
+          message: `Route "${splatPath}" never matches a single segment: "${dynamicPath(catchAll)}" takes all of them`,
+          patterns: [splatPath, dynamicPath(catchAll)],
+        });
+      }
+
+      // Requests that go deeper than a sibling route, or stop above it,
+      // end up at the splat unless the sibling has a splat of its own
+      const swallowed = this.childSteps(node)
+        .filter(
+          ({ kind, node: child }) =>
+            kind !== "splat" &&
+            child.hasChildren() &&
+            !child.splatChild?.hasHandler()
+        )
+        .map((step) => `${path}/${step.text(sameName)}`);
+      if (swallowed.length > 0) {
+        findings.push({
+          severity: "info",
+          code: "splat-fallthrough",
+          message: `Route "${splatPath}" receives the requests below ${swallowed
+            .map((sibling) => `"${sibling}"`)
+            .join(", ")} that no route there matches`,
+          patterns: [splatPath, ...swallowed],
+        });
+      }
+    }
+
+    for (const step of this.childSteps(node)) {
+      this.lintNode(step.node, `${path}/${step.text(sameName)}`, findings);
+    }
+  }
+
+  // Writes the routes of this tree, including mounted ones, as a manifest
+  // RouteTree.fromJSON can load. Every handler must have been added with
+  // an id. Metadata is written as is, so it must be JSON-serializable.
+  // Middleware and loaders are not included, and trees with host routes
+  // cannot be written.
+  toJSON(): RouteManifest {
+    if (this.hosts.length > 0) {
+      throw new Error(
+        "Cannot serialize host routes: Manifests only hold routes without a host"
+      );
+    }
+    const names: Record<string, string> = {};
+    this.namedRoutes().forEach((name) => {
+      names[name] = this.routePattern(name)!;
+    });
+
+    return {
+      version: MANIFEST_VERSION,
+      options: { ...this.options },
+      names,
+      root: this.serializeNode(this.root, ""),
+    };
+  }
+
+  // Rebuilds a tree from a manifest written by toJSON, looking up handlers
+  // by id in handlers
+  static fromJSON<THandler = RouteHandler, TContext = unknown>(
+    manifest: unknown,
+    handlers: Record<string, THandler>
+  ): RouteTree<THandler, TContext> {
+    const { options, names, root } = validateManifest(manifest);
+    const tree = new RouteTree<THandler, TContext>(options);
+    tree.loadNode(tree.root, root, "", handlers);
+    for (const name in names) {
+      tree.routeNames.set(name, names[name]);
+    }
+    return tree;
+  }
+
+  private serializeNode(node: RouteNode<THandler>, path: string): ManifestNode {
+    const result: ManifestNode = {};
+    const idOf = (slot: string) => {
+      const id = node.handlerIds.get(slot);
+      if (id === undefined) {
+        throw new Error(
+          `Cannot serialize route "${path || "/"}": Its ${slot === "*" ? "" : `${slot} `}handler was added without an id`
+        );
+      }
+      return id;
+    };
+
+    if (node.handler !== undefined) result.handler = idOf("*");
+    if (node.indexHandler !== undefined) result.index = idOf("index");
+    if (node.methodHandlers.size > 0) {
+      result.methods = {};
+      node.methodHandlers.forEach((_handler, method) => {
+        result.methods![method] = idOf(method);
+      });
+    }
+    if (node.meta.size > 0) {
+      result.meta = {};
+      node.meta.forEach((meta, slot) => {
+        result.meta![slot] = meta;
+      });
+    }
+    if (node.locales.size > 0) {
+      result.locales = {};
+      node.locales.forEach(({ locale, paths }, slot) => {
+        result.locales![slot] = { locale, paths: { ...paths } };
+      });
+    }
+    if (node.paramAliases) result.aliases = { ...node.paramAliases };
+
+    if (node.children.size > 0) {
+      result.static = {};
+      node.children.forEach((child) => {
+        const literal = child.literal!;
+        result.static![literal] = this.serializeNode(
+          child,
+          `${path}/${literal}`
+        );
+      });
+    }
+
+    const serializeChild = (
+      segment: string,
+      pattern: string,
+      child: RouteNode<THandler>
+    ): ManifestChild => ({
+      segment,
+      pattern,
+      node: this.serializeNode(child, `${path}/${segment}`),
+    });
+    if (node.mixedChildren.length > 0) {
+      result.mixed = node.mixedChildren.map((child) =>
+        serializeChild(mixedSegmentText(child), child.pattern, child.node)
+      );
+    }
+    const dynamicChildren = node.dynamicChild
+      ? [...node.constrainedChildren, node.dynamicChild]
+      : node.constrainedChildren;
+    if (dynamicChildren.length > 0) {
+      result.params = dynamicChildren.map((child) =>
+        serializeChild(dynamicSegmentText(child), child.pattern, child.node)
+      );
+    }
+    if (node.splatChild) {
+      result.splat = this.serializeNode(node.splatChild, `${path}/$`);
+    }
+    return result;
+  }
+
+  private loadNode(
+    node: RouteNode<THandler>,
+    manifest: ManifestNode,
+    path: string,
+    handlers: Record<string, THandler>
+  ): void {
+    const handlerFor = (slot: string, id: string) => {
+      if (!Object.prototype.hasOwnProperty.call(handlers, id)) {
+        throw new Error(
+          `Invalid route manifest: Unknown handler id "${id}" for route "${path || "/"}"`
+        );
+      }
+      node.handlerIds.set(slot, id);
+      return handlers[id];
+    };
+
+    if (manifest.handler !== undefined) {
+      node.handler = handlerFor("*", manifest.handler);
+    }
+    if (manifest.index !== undefined) {
+      node.indexHandler = handlerFor("index", manifest.index);
+    }
+    for (const method in manifest.methods) {
+      const upper = method.toUpperCase();
+      node.methodHandlers.set(
+        upper,
+        handlerFor(upper, manifest.methods[method])
+      );
+    }
+    for (const slot in manifest.meta) {
+      node.meta.set(slot, manifest.meta[slot]);
+    }
+    for (const slot in manifest.locales) {
+      const { locale, paths } = manifest.locales[slot];
+      node.locales.set(slot, { locale, paths: { ...paths } });
+    }
+    if (manifest.aliases) node.paramAliases = { ...manifest.aliases };
+
+    for (const literal in manifest.static) {
+      const child = new RouteNode<THandler>();
+      child.literal = literal;
+      node.children.set(this.staticKey(literal), child);
+      this.loadNode(
+        child,
+        manifest.static[literal],
+        `${path}/${literal}`,
+        handlers
+      );
+    }
+
+    // Segments are parsed again, so their constraints are checked the same
+    // way as when they were first added
+    const parseChild = ({ segment }: ManifestChild) => {
+      let parsed: PatternSegment;
+      try {
+        [parsed] = parsePattern(`/${segment}`);
+      } catch (error) {
+        throw new Error(`Invalid route manifest: ${(error as Error).message}`);
+      }
+      return parsed;
+    };
+    for (const child of manifest.mixed ?? []) {
+      const segment = parseChild(child);
+      if (segment.type !== "mixed") {
+        throw new Error(
+          `Invalid route manifest: "${child.segment}" under "${path || "/"}" is not a mixed segment`
+        );
+      }
+      const params = segment.parts.filter(
+        (part): part is MixedParam => typeof part !== "string"
+      );
+      const mixedChild: MixedChild<THandler> = {
+        node: new RouteNode<THandler>(),
+        segment,
+        paramNames: params.map((param) => param.name),
+        paramTypes: params.map((param) => param.constraint),
+        pattern: child.pattern,
+      };
+      this.insertMixedChild(node, mixedChild);
+      this.loadNode(
+        mixedChild.node,
+        child.node,
+        `${path}/${child.segment}`,
+        handlers
+      );
+    }
+    for (const child of manifest.params ?? []) {
+      const segment = parseChild(child);
+      if (
+        segment.type !== "param" ||
+        segment.optional ||
+        (!segment.constraint && node.dynamicChild)
+      ) {
+        throw new Error(
+          `Invalid route manifest: "${child.segment}" under "${path || "/"}" is not a single param segment`
+        );
+      }
+      const dynamicChild: DynamicChild<THandler> = {
+        node: new RouteNode<THandler>(),
+        paramName: segment.name,
+        pattern: child.pattern,
+        constraint: segment.constraint,
+      };
+      if (segment.constraint) {
+        node.constrainedChildren.push(dynamicChild);
+      } else {
+        node.dynamicChild = dynamicChild;
+      }
+      this.loadNode(
+        dynamicChild.node,
+        child.node,
+        `${path}/${child.segment}`,
+        handlers
+      );
+    }
+    if (manifest.splat) {
+      node.splatChild = new RouteNode<THandler>();
+      this.loadNode(node.splatChild, manifest.splat, `${path}/$`, handlers);
+    }
   }
 }
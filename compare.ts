@@ -1,5 +1,5 @@
 import { matchRoutes } from "react-router";
-import { RouteTree } from "./RouteTree";
+import { RouteTree, type RouteTreeOptions } from "./RouteTree";
 
 // Helper function to measure execution time
 function measureTime(fn: () => void, iterations: number = 1000): number {
@@ -11,6 +11,24 @@ function measureTime(fn: () => void, iterations: number = 1000): number {
   return (end - start) / iterations; // Average time per iteration in ms
 }
 
+// Helper to estimate bytes allocated per call. The burst is kept short so
+// garbage collection rarely runs in between; when it does, it reads as 0.
+function measureAllocations(fn: () => void, iterations: number = 100): number {
+  fn(); // Warm up so lazily created objects aren't counted
+  const before = process.memoryUsage().heapUsed;
+  for (let i = 0; i < iterations; i++) {
+    fn();
+  }
+  const after = process.memoryUsage().heapUsed;
+  return Math.max(0, (after - before) / iterations);
+}
+
+function formatDifference(baseline: number, time: number): string {
+  return `${(((baseline - time) / baseline) * 100).toFixed(1)}% ${
+    time < baseline ? "faster" : "slower"
+  }`;
+}
+
 // Helper to generate large number of routes
 function generateLargeRouteSet(count: number): string[] {
   const routes: string[] = [];
@@ -174,9 +192,10 @@ function createReactRouterRoutes(paths: string[]) {
   }));
 }
 
-// Setup RouteTree
-function setupRouteTree(paths: string[]) {
-  const tree = new RouteTree();
+// Setup RouteTree (generated routes reuse positions under different param
+// names, which react-router accepts as well)
+function setupRouteTree(paths: string[], options: RouteTreeOptions = {}) {
+  const tree = new RouteTree({ allowParamAliases: true, ...options });
   paths.forEach((path) => {
     tree.addRoute(path, () => "handler");
   });
@@ -200,32 +219,128 @@ function runScenarios() {
     console.log(`Setup time: ${(setupEnd - setupStart).toFixed(2)}ms\n`);
     console.log(routeTree.toVisualTree());
 
+    const compileStart = performance.now();
+    const compiled = routeTree.compile();
+    console.log(
+      `Compile time: ${(performance.now() - compileStart).toFixed(2)}ms`
+    );
+
     // Test each path
     scenario.testPaths.forEach((testPath) => {
       console.log(`\nTesting path: ${testPath}`);
 
-      // Test React Router
-      const reactRouterTime = measureTime(() => {
-        matchRoutes(reactRouterRoutes, testPath);
-      });
+      const candidates = [
+        {
+          name: "React Router",
+          fn: () => matchRoutes(reactRouterRoutes, testPath),
+        },
+        { name: "RouteTree", fn: () => routeTree.match(testPath) },
+        { name: "Compiled", fn: () => compiled.match(testPath) },
+      ];
+      const results = candidates.map(({ name, fn }) => ({
+        name,
+        time: measureTime(fn),
+        bytes: measureAllocations(fn),
+      }));
 
-      // Test RouteTree
-      const routeTreeTime = measureTime(() => {
-        routeTree.match(testPath);
+      results.forEach(({ name, time, bytes }) => {
+        console.log(
+          `${name}:${" ".repeat(13 - name.length)}${time.toFixed(
+            5
+          )}ms  ~${Math.round(bytes)} B/match`
+        );
       });
 
-      console.log(`React Router: ${reactRouterTime.toFixed(5)}ms`);
-      console.log(`RouteTree:    ${routeTreeTime.toFixed(5)}ms`);
+      const [reactRouter, uncompiled, compiledResult] = results;
+      console.log(
+        `RouteTree vs React Router: ${formatDifference(
+          reactRouter.time,
+          uncompiled.time
+        )}`
+      );
+      console.log(
+        `Compiled vs React Router:  ${formatDifference(
+          reactRouter.time,
+          compiledResult.time
+        )}`
+      );
       console.log(
-        `Difference:   ${(
-          ((reactRouterTime - routeTreeTime) / reactRouterTime) *
-          100
-        ).toFixed(1)}% ${routeTreeTime < reactRouterTime ? "faster" : "slower"}`
+        `Compiled vs RouteTree:     ${formatDifference(
+          uncompiled.time,
+          compiledResult.time
+        )}`
       );
     });
   });
 }
 
+// Picks concrete paths from routes with a Zipf-like skew: the path of rank
+// r is requested about 1/r as often as the most popular one
+function generateSkewedPaths(
+  routes: string[],
+  distinct: number,
+  count: number
+): string[] {
+  const candidates = routes
+    .slice(0, distinct)
+    .map((route, i) => route.replace(/:[^/]+/g, String(i)));
+  const weights = candidates.map((_, rank) => 1 / (rank + 1));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Deterministic linear congruential generator, so runs are comparable
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  const paths: string[] = [];
+  for (let i = 0; i < count; i++) {
+    let target = random() * totalWeight;
+    let index = 0;
+    while (target > weights[index] && index < weights.length - 1) {
+      target -= weights[index++];
+    }
+    paths.push(candidates[index]);
+  }
+  return paths;
+}
+
+function runCachedScenario() {
+  console.log("\nScenario: Cached matching with skewed traffic (10k routes)");
+  console.log("-".repeat(50));
+
+  const routes = generateLargeRouteSet(10000);
+  // Every 7th route, so popular paths mix the generated route types
+  const sampled = routes.filter((_, i) => i % 7 === 0);
+  const requests = generateSkewedPaths(sampled, 300, 20000);
+
+  const uncached = setupRouteTree(routes);
+  const cached = setupRouteTree(routes, { cacheSize: 500 });
+  const measureRequests = (tree: RouteTree) =>
+    measureTime(() => requests.forEach((path) => tree.match(path)), 5) /
+    requests.length;
+
+  const uncachedTime = measureRequests(uncached);
+  const cachedTime = measureRequests(cached);
+  console.log(
+    `${requests.length} requests over ${new Set(requests).size} distinct paths`
+  );
+  console.log(`Uncached: ${uncachedTime.toFixed(5)}ms per request`);
+  console.log(`Cached:   ${cachedTime.toFixed(5)}ms per request`);
+  console.log(
+    `Cached vs uncached: ${formatDifference(uncachedTime, cachedTime)}`
+  );
+
+  const { hits, misses, evictions } = cached.cacheStats()!;
+  console.log(
+    `Cache: ${hits} hits, ${misses} misses, ${evictions} evictions (${(
+      (hits / (hits + misses)) *
+      100
+    ).toFixed(1)}% hit rate)`
+  );
+}
+
 // Test the visual tree representation
 function testVisualTree() {
   console.log("\nTesting Tree Visualization");
@@ -256,3 +371,4 @@ function testVisualTree() {
 // testVisualTree();
 
 runScenarios();
+runCachedScenario();
@@ -0,0 +1,59 @@
+// Prints the route tree and lint findings for a directory of route files and
+// optionally writes a typed manifest of it:
+//   npx tsx generateRoutes.ts <routes dir> [--out <file>]
+
+import { writeFileSync } from "fs";
+
+import { RouteTree } from "./RouteTree";
+import {
+  addRouteFiles,
+  discoverRoutes,
+  manifestModule,
+  RouteConflictError,
+} from "./routeFiles";
+
+function main(args: string[]): number {
+  const outIndex = args.indexOf("--out");
+  const out = outIndex === -1 ? undefined : args[outIndex + 1];
+  const [dir] =
+    outIndex === -1 ? args : args.filter((_arg, index) => index < outIndex);
+  if (!dir || (outIndex !== -1 && !out)) {
+    console.error("Usage: generateRoutes.ts <routes dir> [--out <file>]");
+    return 1;
+  }
+
+  let routes;
+  try {
+    routes = discoverRoutes(dir);
+  } catch (error) {
+    if (error instanceof RouteConflictError) {
+      console.error(error.message);
+      return 1;
+    }
+    throw error;
+  }
+
+  const tree = new RouteTree();
+  // Only the handler ids end up in the manifest
+  addRouteFiles(tree, routes, ({ file }) => {
+    return () => file;
+  });
+  console.log(tree.toVisualTree());
+
+  // Errors fail the run, so CI catches routes that can never be reached
+  const findings = tree.lint();
+  findings.forEach(({ severity, code, message }) => {
+    console.error(`${severity} (${code}): ${message}`);
+  });
+  if (findings.some(({ severity }) => severity === "error")) {
+    return 1;
+  }
+
+  if (out) {
+    writeFileSync(out, manifestModule(routes, tree.toJSON()));
+    console.log(`Wrote ${routes.length} routes to ${out}`);
+  }
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,50 @@
+import { describe, test, expect } from "vitest";
+
+import { LruCache } from "./routeCache";
+
+describe("LruCache", () => {
+  test("should count hits and misses", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.stats()).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 0,
+      size: 1,
+      capacity: 2,
+    });
+  });
+
+  test("should evict the least recently used entry", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.stats().evictions).toBe(1);
+  });
+
+  test("should keep statistics when cleared", () => {
+    const cache = new LruCache<string, number>(1);
+    cache.set("a", 1);
+    cache.get("a");
+    cache.clear();
+
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, size: 0 });
+  });
+
+  test("should reject sizes that aren't positive integers", () => {
+    expect(() => new LruCache(0)).toThrow(
+      "Invalid cache size 0: Must be a positive integer"
+    );
+    expect(() => new LruCache(1.5)).toThrow("Invalid cache size 1.5");
+  });
+});
@@ -0,0 +1,64 @@
+// Size-bounded least-recently-used cache behind RouteTreeOptions.cacheSize.
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  capacity: number;
+}
+
+export class LruCache<TKey, TValue> {
+  // Map iteration follows insertion order, so the first key is the least
+  // recently used one
+  private entries: Map<TKey, TValue> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(
+        `Invalid cache size ${capacity}: Must be a positive integer`
+      );
+    }
+  }
+
+  get(key: TKey): TValue | undefined {
+    if (!this.entries.has(key)) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: TKey, value: TValue): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+      this.evictions++;
+    }
+  }
+
+  // Drops every entry, keeping the statistics
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      capacity: this.capacity,
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, test, expect } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+
+import {
+  addRouteFiles,
+  discoverRoutes,
+  findConflicts,
+  manifestModule,
+  RouteConflictError,
+  routePathFromFile,
+} from "./routeFiles";
+import { RouteTree } from "./RouteTree";
+
+describe("routePathFromFile", () => {
+  test("should follow the file conventions", () => {
+    expect(routePathFromFile("users/[id]/profile.ts")).toBe(
+      "/users/:id/profile"
+    );
+    expect(routePathFromFile("docs/[...rest].ts")).toBe("/docs/$");
+    expect(routePathFromFile("users/index.tsx")).toBe("/users");
+    expect(routePathFromFile("index.ts")).toBe("/");
+    expect(routePathFromFile("posts/post-[id].ts")).toBe("/posts/post-:id");
+  });
+
+  test("should skip files that aren't route modules", () => {
+    expect(routePathFromFile("README.md")).toBeUndefined();
+    expect(routePathFromFile("users/[id].test.ts")).toBeUndefined();
+    expect(routePathFromFile("types.d.ts")).toBeUndefined();
+    expect(routePathFromFile("page.vue", [".vue"])).toBe("/page");
+  });
+
+  test("should require catch-all segments to be last", () => {
+    expect(() => routePathFromFile("docs/[...rest]/edit.ts")).toThrow(
+      'Invalid route file "docs/[...rest]/edit.ts": Catch-all segment "[...rest]" must be last'
+    );
+  });
+});
+
+describe("findConflicts", () => {
+  test("should report param names that differ for one segment", () => {
+    expect(
+      findConflicts([
+        { file: "users/[id].ts", path: "/users/:id" },
+        { file: "users/[slug]/edit.ts", path: "/users/:slug/edit" },
+        { file: "users/[id]/posts.ts", path: "/users/:id/posts" },
+      ])
+    ).toEqual([
+      {
+        files: ["users/[id].ts", "users/[slug]/edit.ts"],
+        message:
+          '"users/[id].ts" and "users/[slug]/edit.ts" use different names for the same segment: :id and :slug',
+      },
+    ]);
+  });
+
+  test("should report files defining the same route", () => {
+    expect(
+      findConflicts([
+        { file: "users.ts", path: "/users" },
+        { file: "users/index.ts", path: "/users" },
+      ])
+    ).toEqual([
+      {
+        files: ["users.ts", "users/index.ts"],
+        message:
+          '"users.ts" and "users/index.ts" both define the route "/users"',
+      },
+    ]);
+  });
+});
+
+describe("discoverRoutes", () => {
+  let dir: string;
+
+  const write = (...files: string[]) => {
+    for (const file of files) {
+      mkdirSync(dirname(join(dir, file)), { recursive: true });
+      writeFileSync(join(dir, file), "export default null;\n");
+    }
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "routes-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should find route files in a stable order", () => {
+    write(
+      "index.ts",
+      "users/index.ts",
+      "users/[id]/profile.ts",
+      "docs/[...rest].ts",
+      "docs/notes.md"
+    );
+
+    expect(discoverRoutes(dir)).toEqual([
+      { file: "docs/[...rest].ts", path: "/docs/$" },
+      { file: "index.ts", path: "/" },
+      { file: "users/[id]/profile.ts", path: "/users/:id/profile" },
+      { file: "users/index.ts", path: "/users" },
+    ]);
+  });
+
+  test("should throw with both files of each conflict", () => {
+    write("users/[id].ts", "users/[slug].ts");
+
+    let error: unknown;
+    try {
+      discoverRoutes(dir);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(RouteConflictError);
+    expect((error as RouteConflictError).conflicts).toHaveLength(1);
+    expect((error as RouteConflictError).conflicts[0].files).toEqual([
+      "users/[id].ts",
+      "users/[slug].ts",
+    ]);
+    expect((error as RouteConflictError).message).toContain(
+      '"users/[id].ts" and "users/[slug].ts" use different names'
+    );
+  });
+
+  test("should build a tree and a typed manifest module", () => {
+    write("index.ts", "users/[id].ts");
+    const routes = discoverRoutes(dir);
+    const tree = new RouteTree();
+    addRouteFiles(tree, routes, ({ file }) => {
+      return () => file;
+    });
+
+    expect(tree.match("/users/1")!.handler()).toBe("users/[id].ts");
+
+    const source = manifestModule(routes, tree.toJSON());
+    expect(source).toContain('"/users/:id": "users/[id].ts"');
+    expect(source).toContain(
+      "export type RoutePath = keyof typeof routeFiles;"
+    );
+    expect(source).toContain('"handler": "users/[id].ts"');
+  });
+});
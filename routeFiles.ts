@@ -0,0 +1,200 @@
+// Route discovery from a directory of route modules. File paths follow the
+// conventions "users/[id]/profile.ts" for "/users/:id/profile",
+// "docs/[...rest].ts" for the splat route "/docs/$" and "index.ts" for the
+// path of its directory.
+
+import { readdirSync } from "fs";
+import { join } from "path";
+
+import { parsePattern } from "./routePattern";
+import type { RouteManifest, RouteTree, TypedHandler } from "./RouteTree";
+
+export interface RouteFile {
+  // Path of the file relative to the routes directory, "/"-separated
+  file: string;
+  // Route pattern for RouteTree.addRoute
+  path: string;
+}
+
+export interface RouteFileConflict {
+  files: [string, string];
+  message: string;
+}
+
+// Thrown by discoverRoutes when files would define the same route or give
+// one segment different param names
+export class RouteConflictError extends Error {
+  constructor(public conflicts: RouteFileConflict[]) {
+    super(
+      `Conflicting route files:\n${conflicts
+        .map(({ message }) => `  ${message}`)
+        .join("\n")}`
+    );
+    this.name = "RouteConflictError";
+  }
+}
+
+export interface DiscoverOptions {
+  // Extensions of route modules (defaults to .ts, .tsx, .js and .jsx)
+  extensions?: string[];
+}
+
+const defaultExtensions = [".ts", ".tsx", ".js", ".jsx"];
+
+// Route pattern for a file relative to the routes directory, or undefined
+// for files that aren't route modules (other extensions, tests, .d.ts)
+export function routePathFromFile(
+  file: string,
+  extensions: string[] = defaultExtensions
+): string | undefined {
+  const extension = extensions.find((extension) => file.endsWith(extension));
+  if (!extension) return undefined;
+
+  const base = file.slice(0, -extension.length);
+  if (/\.(test|spec|d)$/.test(base)) return undefined;
+
+  const names = base.split("/");
+  if (names[names.length - 1] === "index") {
+    names.pop();
+  }
+
+  const segments = names.map((name, index) => {
+    if (/^\[\.\.\.\w+\]$/.test(name)) {
+      if (index !== names.length - 1) {
+        throw new Error(
+          `Invalid route file "${file}": Catch-all segment "${name}" must be last`
+        );
+      }
+      return "$";
+    }
+    // "[id]" and "post-[id]" become ":id" and "post-:id"
+    return name.replace(/\[(\w+)\]/g, ":$1");
+  });
+  return "/" + segments.join("/");
+}
+
+// Finds the route modules below dir, in a stable order
+export function discoverRoutes(
+  dir: string,
+  options: DiscoverOptions = {}
+): RouteFile[] {
+  const routes: RouteFile[] = [];
+
+  const visit = (relative: string) => {
+    const entries = readdirSync(join(dir, relative), { withFileTypes: true });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      const file = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        visit(file);
+      } else if (entry.isFile()) {
+        const path = routePathFromFile(file, options.extensions);
+        if (path !== undefined) routes.push({ file, path });
+      }
+    }
+  };
+  visit("");
+
+  const conflicts = findConflicts(routes);
+  if (conflicts.length > 0) {
+    throw new RouteConflictError(conflicts);
+  }
+  return routes;
+}
+
+// Files defining the same route, or naming the params of a segment they
+// share differently (which RouteTree would merge into one dynamic child)
+export function findConflicts(routes: RouteFile[]): RouteFileConflict[] {
+  const conflicts: RouteFileConflict[] = [];
+  const byShape = new Map<string, RouteFile>();
+  const paramsAt = new Map<string, { names: string; route: RouteFile }>();
+  const report = (files: [string, string], message: string) => {
+    // One conflict per pair of files is enough to point at the problem
+    if (!conflicts.some((conflict) => conflict.files.join() === files.join())) {
+      conflicts.push({ files, message });
+    }
+  };
+
+  for (const route of routes) {
+    // The route without param names, e.g. "/users/:/profile"
+    let shape = "";
+    for (const segment of parsePattern(route.path)) {
+      if (segment.type === "static") {
+        shape += `/${segment.value}`;
+        continue;
+      }
+      if (segment.type === "splat") {
+        shape += "/$";
+        continue;
+      }
+
+      shape += segment.type === "param" ? "/:" : `/${segment.key}`;
+      const names =
+        segment.type === "param"
+          ? `:${segment.name}`
+          : segment.parts
+              .map((part) => (typeof part === "string" ? "" : `:${part.name}`))
+              .filter(Boolean)
+              .join(", ");
+
+      const other = paramsAt.get(shape);
+      if (!other) {
+        paramsAt.set(shape, { names, route });
+      } else if (other.names !== names) {
+        report(
+          [other.route.file, route.file],
+          `"${other.route.file}" and "${route.file}" use different names for the same segment: ${other.names} and ${names}`
+        );
+      }
+    }
+
+    const existing = byShape.get(shape || "/");
+    if (existing) {
+      report(
+        [existing.file, route.file],
+        `"${existing.file}" and "${route.file}" both define the route "${route.path}"`
+      );
+    } else {
+      byShape.set(shape || "/", route);
+    }
+  }
+  return conflicts;
+}
+
+// Adds discovered routes to tree with the handler load returns for each.
+// Files are used as handler ids, so the tree can be written as a manifest.
+export function addRouteFiles<THandler>(
+  tree: RouteTree<THandler>,
+  routes: RouteFile[],
+  load: (route: RouteFile) => THandler
+): void {
+  for (const route of routes) {
+    // Patterns are only known at runtime, so handlers can't be typed by them
+    const handler = load(route) as TypedHandler<THandler, string>;
+    tree.addRoute(route.path, handler, { id: route.file });
+  }
+}
+
+// Source of a module with the route files and manifest of a tree, typed so
+// that RoutePath is the union of the route patterns
+export function manifestModule(
+  routes: RouteFile[],
+  manifest: RouteManifest
+): string {
+  const routeFiles: Record<string, string> = {};
+  routes.forEach(({ file, path }) => {
+    routeFiles[path] = file;
+  });
+
+  return [
+    "// Generated from a routes directory by generateRoutes.ts. Do not edit.",
+    "",
+    `export const routeFiles = ${JSON.stringify(routeFiles, null, 2)} as const;`,
+    "",
+    "export type RoutePath = keyof typeof routeFiles;",
+    "",
+    `export const manifest = ${JSON.stringify(manifest, null, 2)};`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,41 @@
+import { describe, test, expect } from "vitest";
+
+import { MemoryHistory } from "./routeHistory";
+
+describe("MemoryHistory", () => {
+  test("should push, replace and drop entries ahead of the current one", () => {
+    const history = new MemoryHistory(["/", "/a", "/b"], { index: 1 });
+    history.push("/c", { from: "a" });
+    history.replace("/d");
+
+    expect(history.history().map(({ href }) => href)).toEqual([
+      "/",
+      "/a",
+      "/d",
+    ]);
+    expect(history.location()).toMatchObject({ href: "/d", index: 2 });
+  });
+
+  test("should notify listeners of moves within the stack", () => {
+    const history = new MemoryHistory(["/", "/a"]);
+    const moves: string[] = [];
+    const unlisten = history.listen(({ href }) => moves.push(href));
+
+    history.go(-1);
+    history.go(-1);
+    history.go(1);
+    unlisten();
+    history.go(-1);
+
+    expect(moves).toEqual(["/", "/a"]);
+    expect(history.location().href).toBe("/");
+  });
+
+  test("should give every entry its own key", () => {
+    const history = new MemoryHistory();
+    const first = history.location().key;
+    history.push("/");
+
+    expect(history.location().key).not.toBe(first);
+  });
+});
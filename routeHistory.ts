@@ -0,0 +1,190 @@
+// History adapters for NavigationController: one over the browser's history
+// API and one kept in memory, for tests and environments without a browser.
+
+export interface HistoryEntry {
+  // Path with query and fragment, e.g. "/users/1?tab=posts#bio"
+  href: string;
+  state: unknown;
+  // Unique per entry, for data kept alongside it such as scroll positions
+  key: string;
+  // Position in the history stack, 0 for the first entry
+  index: number;
+}
+
+export interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
+export interface HistoryAdapter {
+  // Origin the entries' paths belong to, e.g. "https://example.com"
+  readonly origin: string;
+  location(): HistoryEntry;
+  push(href: string, state?: unknown): void;
+  replace(href: string, state?: unknown): void;
+  go(delta: number): void;
+  // Calls listener when the current entry changes through go or the
+  // browser's back and forward buttons, but not through push or replace
+  listen(listener: (entry: HistoryEntry) => void): () => void;
+  scrollPosition?(): ScrollPosition;
+  scrollTo?(position: ScrollPosition): void;
+}
+
+export interface MemoryHistoryOptions {
+  // Defaults to "http://localhost"
+  origin?: string;
+  // Entry to start at, defaults to the last one
+  index?: number;
+}
+
+export class MemoryHistory implements HistoryAdapter {
+  readonly origin: string;
+  // Scroll position of the simulated page
+  position: ScrollPosition = { x: 0, y: 0 };
+  private entries: HistoryEntry[];
+  private index: number;
+  private listeners: Array<(entry: HistoryEntry) => void> = [];
+  private nextKey = 0;
+
+  constructor(
+    initialEntries: string[] = ["/"],
+    options: MemoryHistoryOptions = {}
+  ) {
+    if (initialEntries.length === 0) {
+      throw new Error("Invalid memory history: Expected at least one entry");
+    }
+    this.origin = options.origin ?? "http://localhost";
+    this.entries = initialEntries.map((href, index) =>
+      this.createEntry(href, undefined, index)
+    );
+    const { index = initialEntries.length - 1 } = options;
+    this.index = Math.min(Math.max(index, 0), initialEntries.length - 1);
+  }
+
+  location(): HistoryEntry {
+    return this.entries[this.index];
+  }
+
+  // Every entry, oldest first
+  history(): HistoryEntry[] {
+    return [...this.entries];
+  }
+
+  push(href: string, state?: unknown): void {
+    // Pushing drops the entries ahead of the current one, like a browser
+    this.index++;
+    this.entries.splice(this.index);
+    this.entries.push(this.createEntry(href, state, this.index));
+  }
+
+  replace(href: string, state?: unknown): void {
+    this.entries[this.index] = this.createEntry(href, state, this.index);
+  }
+
+  go(delta: number): void {
+    const index = this.index + delta;
+    if (delta === 0 || index < 0 || index >= this.entries.length) return;
+
+    this.index = index;
+    const entry = this.location();
+    this.listeners.forEach((listener) => listener(entry));
+  }
+
+  listen(listener: (entry: HistoryEntry) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    };
+  }
+
+  scrollPosition(): ScrollPosition {
+    return { ...this.position };
+  }
+
+  scrollTo(position: ScrollPosition): void {
+    this.position = { ...position };
+  }
+
+  private createEntry(
+    href: string,
+    state: unknown,
+    index: number
+  ): HistoryEntry {
+    return { href, state, key: String(this.nextKey++), index };
+  }
+}
+
+// What BrowserHistory stores in history.state
+interface BrowserState {
+  key: string;
+  index: number;
+  state: unknown;
+}
+
+// Adapter over window.history. NavigationController restores scroll
+// positions itself, so the browser's own scroll restoration is turned off.
+export class BrowserHistory implements HistoryAdapter {
+  readonly origin = window.location.origin;
+
+  constructor() {
+    window.history.scrollRestoration = "manual";
+    // Entries loaded from outside the app don't have a key yet
+    if (!isBrowserState(window.history.state)) {
+      const state: BrowserState = {
+        key: createKey(),
+        index: 0,
+        state: window.history.state ?? undefined,
+      };
+      window.history.replaceState(state, "");
+    }
+  }
+
+  location(): HistoryEntry {
+    const { pathname, search, hash } = window.location;
+    const { key, index, state } = window.history.state as BrowserState;
+    return { href: pathname + search + hash, state, key, index };
+  }
+
+  push(href: string, state?: unknown): void {
+    const index = this.location().index + 1;
+    const entry: BrowserState = { key: createKey(), index, state };
+    window.history.pushState(entry, "", href);
+  }
+
+  replace(href: string, state?: unknown): void {
+    const { index } = this.location();
+    const entry: BrowserState = { key: createKey(), index, state };
+    window.history.replaceState(entry, "", href);
+  }
+
+  go(delta: number): void {
+    window.history.go(delta);
+  }
+
+  listen(listener: (entry: HistoryEntry) => void): () => void {
+    const onPopState = () => listener(this.location());
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }
+
+  scrollPosition(): ScrollPosition {
+    return { x: window.scrollX, y: window.scrollY };
+  }
+
+  scrollTo({ x, y }: ScrollPosition): void {
+    window.scrollTo(x, y);
+  }
+}
+
+function isBrowserState(value: unknown): value is BrowserState {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as BrowserState).key === "string" &&
+    typeof (value as BrowserState).index === "number"
+  );
+}
+
+function createKey(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
@@ -0,0 +1,49 @@
+import { describe, test, expect } from "vitest";
+
+import { compareHostPatterns, parseHostPattern } from "./routeHost";
+
+describe("parseHostPattern", () => {
+  test("should match literal and param labels case-insensitively", () => {
+    const pattern = parseHostPattern(":tenantId.Example.com");
+
+    expect(pattern.source).toBe(":tenantId.example.com");
+    expect(pattern.match("acme.EXAMPLE.com")).toEqual({ tenantId: "acme" });
+    expect(pattern.match("example.com")).toBeUndefined();
+    expect(pattern.match("a.b.example.com")).toBeUndefined();
+    expect(pattern.match(".example.com")).toBeUndefined();
+  });
+
+  test("should reject malformed patterns", () => {
+    expect(() => parseHostPattern("localhost:3000")).toThrow(
+      'Invalid host pattern "localhost:3000": Label "localhost:3000" must be a name or a ":param"'
+    );
+    expect(() => parseHostPattern("api..example.com")).toThrow(
+      'Label "" must be a name or a ":param"'
+    );
+    expect(() => parseHostPattern(":a.:a.com")).toThrow(
+      'Parameter ":a" is declared more than once'
+    );
+  });
+});
+
+describe("compareHostPatterns", () => {
+  test("should order hosts from most to least specific", () => {
+    const patterns = [
+      ":sub.:domain.com",
+      ":tenant.example.com",
+      "example.com",
+      ":tenant.eu.example.com",
+      "api.example.com",
+    ].map(parseHostPattern);
+
+    expect(
+      patterns.sort(compareHostPatterns).map((pattern) => pattern.source)
+    ).toEqual([
+      "api.example.com",
+      "example.com",
+      ":tenant.eu.example.com",
+      ":tenant.example.com",
+      ":sub.:domain.com",
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+// Host patterns for AddRouteOptions.host: dot-separated labels that are
+// either literal ("api.example.com") or params (":tenant.example.com").
+// Hosts are matched case-insensitively and without their port.
+
+import type { RouteParams } from "./RouteTree";
+
+export interface HostPattern {
+  // The pattern as given, with literal labels lowercased
+  source: string;
+  labels: Array<string | { name: string }>;
+  // Params of hostname, or undefined if it doesn't match
+  match(hostname: string): RouteParams | undefined;
+}
+
+const paramLabel = /^:([A-Za-z_][A-Za-z0-9_]*)$/;
+const literalLabel = /^[a-z0-9-]+$/;
+
+export function parseHostPattern(pattern: string): HostPattern {
+  const names = new Set<string>();
+  const labels = pattern.split(".").map((label) => {
+    const param = paramLabel.exec(label);
+    if (param) {
+      const [, name] = param;
+      if (names.has(name)) {
+        throw new Error(
+          `Invalid host pattern "${pattern}": Parameter ":${name}" is declared more than once`
+        );
+      }
+      names.add(name);
+      return { name };
+    }
+    if (!literalLabel.test(label.toLowerCase())) {
+      throw new Error(
+        `Invalid host pattern "${pattern}": Label "${label}" must be a name or a ":param"`
+      );
+    }
+    return label.toLowerCase();
+  });
+
+  const source = labels
+    .map((label) => (typeof label === "string" ? label : `:${label.name}`))
+    .join(".");
+  return {
+    source,
+    labels,
+    match(hostname) {
+      const parts = hostname.toLowerCase().split(".");
+      if (parts.length !== labels.length) return undefined;
+
+      const params: RouteParams = {};
+      for (let i = 0; i < labels.length; i++) {
+        const label = labels[i];
+        if (typeof label === "string") {
+          if (label !== parts[i]) return undefined;
+        } else if (parts[i] === "") {
+          return undefined;
+        } else {
+          params[label.name] = parts[i];
+        }
+      }
+      return params;
+    },
+  };
+}
+
+// Orders host patterns from most to least specific: fully literal hosts,
+// then those with more literal labels, then those with more labels
+export function compareHostPatterns(a: HostPattern, b: HostPattern): number {
+  const literals = (pattern: HostPattern) =>
+    pattern.labels.filter((label) => typeof label === "string").length;
+  const isLiteral = (pattern: HostPattern) =>
+    literals(pattern) === pattern.labels.length;
+
+  if (isLiteral(a) !== isLiteral(b)) return isLiteral(a) ? -1 : 1;
+  return literals(b) - literals(a) || b.labels.length - a.labels.length;
+}
@@ -0,0 +1,243 @@
+import {
+  createServer,
+  request as httpRequest,
+  type OutgoingHttpHeaders,
+  type Server,
+} from "http";
+import type { AddressInfo } from "net";
+import { describe, test, expect, beforeAll, afterAll, vi } from "vitest";
+
+import {
+  createNodeHandler,
+  handleRequest,
+  type HttpHandler,
+} from "./routeHttp";
+import { RouteTree } from "./RouteTree";
+
+function createRoutes(): RouteTree<HttpHandler> {
+  const tree = new RouteTree<HttpHandler>();
+  tree.get("/users/:id", (_request, { params, query }) =>
+    Response.json({ id: params.id, fields: query.fields ?? null })
+  );
+  tree.post("/users", async (request) => {
+    const body = await request.json();
+    return Response.json({ created: body.name }, { status: 201 });
+  });
+  tree.get("/files/$", (_request, { splat, params }) =>
+    Response.json({ splat, path: params["*"] })
+  );
+  tree.get("/cookies", () => {
+    const headers = new Headers();
+    headers.append("Set-Cookie", "a=1");
+    headers.append("Set-Cookie", "b=2");
+    return new Response("ok", { headers });
+  });
+  tree.get("/broken", () => {
+    throw new Error("Broken handler");
+  });
+  tree.get("/broken-body", () => {
+    const body = new ReadableStream({
+      pull(controller) {
+        controller.error(new Error("Broken body"));
+      },
+    });
+    return new Response(body);
+  });
+  return tree;
+}
+
+describe("handleRequest", () => {
+  const tree = createRoutes();
+  const request = (path: string, init?: RequestInit) =>
+    handleRequest(tree, new Request(`http://localhost${path}`, init), {
+      onError: (error) =>
+        new Response((error as Error).message, { status: 500 }),
+    });
+
+  test("should dispatch to the matched handler with params and query", async () => {
+    const response = await request("/users/7?fields=name");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: "7", fields: "name" });
+  });
+
+  test("should answer unknown paths with 404 and other methods with 405", async () => {
+    expect((await request("/nothing")).status).toBe(404);
+
+    const response = await request("/users/7", { method: "DELETE" });
+    expect(response.status).toBe(405);
+    expect(response.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+
+    const options = await request("/users/7", { method: "OPTIONS" });
+    expect(options.status).toBe(204);
+    expect(options.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+  });
+
+  test("should answer malformed paths with 400", async () => {
+    expect((await request("/users/%E0%A4%A")).status).toBe(400);
+  });
+
+  test("should pass handler errors to onError", async () => {
+    const response = await request("/broken");
+
+    expect(response.status).toBe(500);
+    expect(await response.text()).toBe("Broken handler");
+  });
+
+  test("should answer handler errors with a 500 without logging", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    try {
+      const response = await handleRequest(
+        tree,
+        new Request("http://localhost/broken")
+      );
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe("Internal Server Error");
+      expect(consoleError).not.toHaveBeenCalled();
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  test("should work with compiled matchers", async () => {
+    const response = await handleRequest(
+      createRoutes().compile(),
+      new Request("http://localhost/files/a/b.txt")
+    );
+    expect(await response.json()).toEqual({
+      splat: ["a", "b.txt"],
+      path: "a/b.txt",
+    });
+  });
+});
+
+describe("createNodeHandler", () => {
+  let server: Server;
+  let origin: string;
+  let port: number;
+
+  // Sends path and headers as given, which fetch doesn't allow
+  const rawRequest = (
+    path: string,
+    headers: OutgoingHttpHeaders = {},
+    method = "GET"
+  ) =>
+    new Promise<{ status?: number; body: string }>((resolve, reject) => {
+      const req = httpRequest(
+        {
+          host: "127.0.0.1",
+          port,
+          path,
+          method,
+          headers,
+          setHost: !headers.host,
+        },
+        (res) => {
+          let body = "";
+          res.setEncoding("utf8");
+          res.on("data", (chunk: string) => (body += chunk));
+          res.on("end", () => resolve({ status: res.statusCode, body }));
+        }
+      );
+      req.on("error", reject);
+      req.end();
+    });
+
+  beforeAll(async () => {
+    server = createServer(createNodeHandler(createRoutes()));
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    ({ port } = server.address() as AddressInfo);
+    origin = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("should serve matched routes", async () => {
+    const response = await fetch(`${origin}/users/ada?fields=email`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    expect(await response.json()).toEqual({ id: "ada", fields: "email" });
+  });
+
+  test("should pass request bodies to handlers", async () => {
+    const response = await fetch(`${origin}/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "grace" }),
+    });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ created: "grace" });
+  });
+
+  test("should expose the splat remainder", async () => {
+    const response = await fetch(`${origin}/files/docs/readme.md`);
+
+    expect(await response.json()).toEqual({
+      splat: ["docs", "readme.md"],
+      path: "docs/readme.md",
+    });
+  });
+
+  test("should answer HEAD from the GET handler without a body", async () => {
+    const response = await fetch(`${origin}/users/ada`, { method: "HEAD" });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    expect(await response.text()).toBe("");
+  });
+
+  test("should answer 404 and 405", async () => {
+    expect((await fetch(`${origin}/missing`)).status).toBe(404);
+
+    const response = await fetch(`${origin}/users`, { method: "PUT" });
+    expect(response.status).toBe(405);
+    expect(response.headers.get("allow")).toBe("OPTIONS, POST");
+  });
+
+  test("should answer methods the Fetch API refuses with 501", async () => {
+    const response = await rawRequest("/users/ada", {}, "TRACE");
+
+    expect(response.status).toBe(501);
+    expect(response.body).toBe("Not Implemented");
+  });
+
+  test("should answer 500 when a response body fails", async () => {
+    const response = await fetch(`${origin}/broken-body`);
+
+    expect(response.status).toBe(500);
+    expect(await response.text()).toBe("Internal Server Error");
+    expect((await fetch(`${origin}/broken`)).status).toBe(500);
+  });
+
+  test("should keep every cookie", async () => {
+    const response = await fetch(`${origin}/cookies`);
+
+    expect(response.headers.getSetCookie()).toEqual(["a=1", "b=2"]);
+  });
+
+  test("should reject Host headers that aren't hosts", async () => {
+    const response = await rawRequest("/missing", { host: "x/users/ada?" });
+
+    expect(response.status).toBe(400);
+    expect(
+      (await rawRequest("/users/ada", { host: "example.com:8080" })).status
+    ).toBe(200);
+  });
+
+  test("should route absolute-form request targets", async () => {
+    const response = await rawRequest("http://example.com/users/ada");
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ id: "ada", fields: null });
+  });
+});
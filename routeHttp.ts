@@ -0,0 +1,222 @@
+// Serving HTTP requests with a RouteTree of HttpHandlers, from a Fetch API
+// Request or through a Node http server.
+
+import type { IncomingMessage, ServerResponse } from "http";
+
+import {
+  RouteDecodeError,
+  type CompiledMatcher,
+  type ParamValues,
+  type RouteMeta,
+  type RouteParams,
+  type RouteQuery,
+} from "./RouteTree";
+
+export interface HttpContext {
+  params: RouteParams;
+  // params with typed params converted, e.g. { id: 42 } for ":id<int>"
+  values: ParamValues;
+  query: RouteQuery;
+  // Segments matched by a splat ($) route, also joined into params["*"]
+  splat?: string[];
+  meta?: RouteMeta;
+}
+
+export type HttpHandler = (
+  request: Request,
+  context: HttpContext
+) => Response | Promise<Response>;
+
+export interface HttpOptions {
+  // Response for a handler that threw, by default a plain 500. Errors are
+  // not logged unless this does it.
+  onError?: (error: unknown, request: Request) => Response | Promise<Response>;
+}
+
+// Answers request with the handler of the route and method it matches.
+// Paths without a route get a 404, and methods without a handler a 405 (or
+// a 204 for OPTIONS) listing the allowed methods. HEAD requests fall back
+// to the GET handler, without the body.
+export async function handleRequest(
+  routes: CompiledMatcher<HttpHandler>,
+  request: Request,
+  options: HttpOptions = {}
+): Promise<Response> {
+  const method = request.method.toUpperCase();
+  let match;
+  try {
+    match = routes.match(method, request.url);
+    if (
+      method === "HEAD" &&
+      match &&
+      !match.handler &&
+      match.allowedMethods.includes("GET")
+    ) {
+      match = routes.match("GET", request.url);
+    }
+  } catch (error) {
+    if (error instanceof RouteDecodeError) {
+      return textResponse(400, "Bad Request");
+    }
+    throw error;
+  }
+
+  if (!match) {
+    return textResponse(404, "Not Found");
+  }
+  if (!match.handler) {
+    const allow = allowHeader(match.allowedMethods);
+    return match.reason === "options"
+      ? new Response(null, { status: 204, headers: { Allow: allow } })
+      : textResponse(405, "Method Not Allowed", { Allow: allow });
+  }
+
+  const { handler, params, values, query, splat, meta } = match;
+  let response: Response;
+  try {
+    response = await handler(request, { params, values, query, splat, meta });
+  } catch (error) {
+    const { onError = internalError } = options;
+    response = await onError(error, request);
+  }
+
+  if (method === "HEAD") {
+    const { status, statusText, headers } = response;
+    return new Response(null, { status, statusText, headers });
+  }
+  return response;
+}
+
+// Listener for http.createServer that answers requests like handleRequest.
+// Request bodies and responses are buffered.
+export function createNodeHandler(
+  routes: CompiledMatcher<HttpHandler>,
+  options: HttpOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    let response: Response;
+    try {
+      // Methods the Fetch API refuses, so no handler could serve them
+      if (/^(?:CONNECT|TRACE|TRACK)$/i.test(req.method ?? "")) {
+        response = textResponse(501, "Not Implemented");
+      } else {
+        const request = await toRequest(req);
+        response = request
+          ? await handleRequest(routes, request, options)
+          : textResponse(400, "Bad Request");
+      }
+    } catch {
+      response = internalError();
+    }
+
+    try {
+      await writeResponse(res, response);
+    } catch {
+      // The body failed to read, which happens before anything is written
+      await writeResponse(res, internalError());
+    }
+  };
+}
+
+function textResponse(
+  status: number,
+  text: string,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(text, {
+    status,
+    headers: { "Content-Type": "text/plain; charset=utf-8", ...headers },
+  });
+}
+
+function internalError(): Response {
+  return textResponse(500, "Internal Server Error");
+}
+
+// Allow header for a path's methods, with HEAD wherever GET is handled
+function allowHeader(methods: string[]): string {
+  const allowed =
+    methods.includes("GET") && !methods.includes("HEAD")
+      ? [...methods, "HEAD"].sort()
+      : methods;
+  return allowed.join(", ");
+}
+
+// A Host header: a name or an IP literal, optionally with a port
+const hostHeaderPattern =
+  /^(?:[a-z0-9-]+(?:\.[a-z0-9-]+)*\.?|\[[0-9a-f:.]+\])(?::\d{1,5})?$/i;
+
+// URL of a Node request, or undefined if its target or Host header is
+// malformed
+function requestUrl(req: IncomingMessage): URL | undefined {
+  const target = req.url ?? "/";
+  try {
+    // Absolute-form targets, as sent to proxies, carry their own host
+    if (/^https?:\/\//i.test(target)) return new URL(target);
+
+    const host = req.headers.host ?? "localhost";
+    if (!target.startsWith("/") || !hostHeaderPattern.test(host)) {
+      return undefined;
+    }
+    // Joined rather than resolved, so "//a" stays a path
+    return new URL(`http://${host}${target}`);
+  } catch {
+    return undefined;
+  }
+}
+
+// Request for a Node request, or undefined if its URL is malformed
+async function toRequest(req: IncomingMessage): Promise<Request | undefined> {
+  const url = requestUrl(req);
+  if (!url) return undefined;
+
+  const headers = new Headers();
+  for (const name in req.headers) {
+    const value = req.headers[name];
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((value) => {
+      if (value !== undefined) headers.append(name, value);
+    });
+  }
+
+  const method = req.method ?? "GET";
+  const body =
+    method === "GET" || method === "HEAD" ? undefined : await readBody(req);
+  return new Request(url, {
+    method,
+    headers,
+    body: body && body.length > 0 ? body : undefined,
+  });
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+async function writeResponse(
+  res: ServerResponse,
+  response: Response
+): Promise<void> {
+  const body = response.body
+    ? Buffer.from(await response.arrayBuffer())
+    : undefined;
+
+  res.statusCode = response.status;
+  if (response.statusText) {
+    res.statusMessage = response.statusText;
+  }
+  response.headers.forEach((value, name) => {
+    // Joined by forEach, so set separately to keep every cookie
+    if (name !== "set-cookie") res.setHeader(name, value);
+  });
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) {
+    res.setHeader("set-cookie", cookies);
+  }
+  res.end(body);
+}
@@ -0,0 +1,38 @@
+import { describe, test, expect } from "vitest";
+
+import { constraintSubsumes } from "./routeLint";
+import { parsePattern, type ParamConstraint } from "./routePattern";
+
+function constraint(source: string): ParamConstraint {
+  const [segment] = parsePattern(`/:value${source}`);
+  return segment.type === "param" ? segment.constraint! : undefined!;
+}
+
+describe("constraintSubsumes", () => {
+  test("should treat unconstrained and catch-all params as accepting anything", () => {
+    expect(constraintSubsumes(undefined, constraint("<int>"))).toBe(true);
+    expect(constraintSubsumes(constraint("(.+)"), undefined)).toBe(true);
+    expect(constraintSubsumes(constraint("<int>"), undefined)).toBe(false);
+  });
+
+  test("should compare built-in types and value lists", () => {
+    expect(
+      constraintSubsumes(constraint("<number>"), constraint("<int>"))
+    ).toBe(true);
+    expect(
+      constraintSubsumes(constraint("<int>"), constraint("<number>"))
+    ).toBe(false);
+    expect(constraintSubsumes(constraint("(\\d+)"), constraint("<1|2>"))).toBe(
+      true
+    );
+    expect(constraintSubsumes(constraint("(\\d+)"), constraint("<1|a>"))).toBe(
+      false
+    );
+  });
+
+  test("should not guess about regex constraints", () => {
+    expect(constraintSubsumes(constraint("(\\w+)"), constraint("(\\d+)"))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,57 @@
+// Findings reported by RouteTree.lint about route tables that are likely
+// mistakes: routes that can't be reached, replaced handlers, params named
+// differently for one segment and splats catching what siblings miss.
+
+import type { ParamConstraint } from "./routePattern";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintCode =
+  // No request can reach the route
+  | "unreachable"
+  // A later addRoute replaced the route's handler
+  | "overwritten-handler"
+  // Routes sharing a segment declare different names for its param
+  | "param-aliases"
+  // Sibling params of different names compete for the same segment
+  | "param-names"
+  // A dynamic sibling takes every single segment the splat could match
+  | "splat-shadowed"
+  // Requests below sibling routes fall through to the splat
+  | "splat-fallthrough";
+
+export interface LintFinding {
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  // Patterns of the routes involved, the offending one first
+  patterns: string[];
+  // Host pattern the routes were added with, if any
+  host?: string;
+}
+
+// Regex constraints that accept any segment, like an unconstrained param
+const anySegment = new Set(["(.*)", "(.+)", "([^/]*)", "([^/]+)"]);
+
+// Whether every segment allowed by b is allowed by a, as far as can be told
+// from the constraints. undefined stands for an unconstrained param, and
+// other regex constraints are only compared against value lists.
+export function constraintSubsumes(
+  a: ParamConstraint | undefined,
+  b: ParamConstraint | undefined
+): boolean {
+  if (!a || anySegment.has(a.source)) return true;
+  if (!b) return false;
+  if (a.source === b.source) return true;
+  if (a.source === "<number>" && b.source === "<int>") return true;
+
+  const values = enumValues(b);
+  return values !== undefined && values.every((value) => a.test(value));
+}
+
+// Values of a "<a|b>" constraint
+function enumValues(constraint: ParamConstraint): string[] | undefined {
+  const { source } = constraint;
+  if (!source.startsWith("<") || !source.includes("|")) return undefined;
+  return source.slice(1, -1).split("|");
+}
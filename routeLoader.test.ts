@@ -0,0 +1,182 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+
+import {
+  RedirectLoopError,
+  ResolveAbortedError,
+  RouteLoaderError,
+  RouteResolver,
+} from "./routeLoader";
+import { redirect, RouteTree } from "./RouteTree";
+
+// Resolves after the given number of milliseconds, or rejects on abort
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new Error("aborted"));
+    });
+  });
+}
+
+describe("RouteResolver", () => {
+  let tree: RouteTree;
+  let resolver: RouteResolver;
+
+  beforeEach(() => {
+    tree = new RouteTree();
+    tree.addRoute("/users", () => "users", {
+      loader: () => ["ada", "grace"],
+    });
+    tree.addRoute("/users/:id", () => "user", {
+      loader: async (params, { query }) => ({ id: params.id, tab: query.tab }),
+    });
+    tree.addRoute("/plain", () => "plain");
+    resolver = new RouteResolver(tree);
+  });
+
+  test("should load every route of the branch", async () => {
+    const resolved = await resolver.resolve("/users/ada?tab=posts");
+
+    expect(resolved!.href).toBe("/users/ada?tab=posts");
+    expect(resolved!.redirects).toEqual([]);
+    expect(
+      resolved!.routes.map(({ pathname, data }) => [pathname, data])
+    ).toEqual([
+      ["/users", ["ada", "grace"]],
+      ["/users/ada", { id: "ada", tab: "posts" }],
+    ]);
+    const plain = await resolver.resolve("/plain");
+    expect(plain!.routes[0].pathname).toBe("/plain");
+    expect(plain!.routes[0].data).toBeUndefined();
+    expect(await resolver.resolve("/missing")).toBeUndefined();
+  });
+
+  test("should run the loaders in parallel", async () => {
+    const started: string[] = [];
+    const tree = new RouteTree();
+    tree.addRoute("/a", () => "a", {
+      loader: async (_params, { signal }) => {
+        started.push("a");
+        await delay(10, signal);
+        return started.length;
+      },
+    });
+    tree.addRoute("/a/b", () => "b", {
+      loader: async () => {
+        started.push("b");
+        return started.length;
+      },
+    });
+
+    const resolved = await new RouteResolver(tree).resolve("/a/b");
+    expect(resolved!.routes.map(({ data }) => data)).toEqual([2, 2]);
+  });
+
+  test("should report loader errors per route", async () => {
+    tree.addRoute("/users/:id", () => "user", {
+      loader: () => {
+        throw new Error("Not found");
+      },
+    });
+
+    const resolved = await resolver.resolve("/users/ada");
+    const { error } = resolved!.routes[1];
+    expect(error).toBeInstanceOf(RouteLoaderError);
+    expect(error!.message).toBe(
+      'Loader of route "/users/ada" failed: Not found'
+    );
+    expect(resolved!.routes[0].error).toBeUndefined();
+  });
+
+  test("should follow redirects thrown by loaders", async () => {
+    tree.addRoute("/old/:id", () => "old", {
+      loader: (params) => {
+        throw redirect(`../users/${params.id}`);
+      },
+    });
+    tree.addRoute("/start", () => "start", {
+      loader: () => {
+        throw redirect("/old/ada");
+      },
+    });
+
+    const resolved = await resolver.resolve("/start");
+    expect(resolved!.href).toBe("/users/ada");
+    expect(resolved!.redirects).toEqual(["/old/ada", "/users/ada"]);
+  });
+
+  test("should return redirects to another origin to the caller", async () => {
+    const loader = vi.fn(() => "login");
+    tree.addRoute("/login", () => "login", { loader });
+    tree.addRoute("/account", () => "account", {
+      loader: () => {
+        throw redirect("https://auth.example.com/login");
+      },
+    });
+    tree.addRoute("/settings", () => "settings", {
+      loader: () => {
+        throw redirect("http://localhost/account?from=settings");
+      },
+    });
+
+    const resolved = await resolver.resolve("/settings");
+    expect(resolved).toEqual({
+      href: "/account?from=settings",
+      routes: [],
+      redirects: ["/account?from=settings", "https://auth.example.com/login"],
+      external: "https://auth.example.com/login",
+    });
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  test("should detect redirect loops", async () => {
+    tree.addRoute("/a", () => "a", {
+      loader: () => Promise.reject(redirect("/b")),
+    });
+    tree.addRoute("/b", () => "b", {
+      loader: () => Promise.reject(redirect("/a")),
+    });
+
+    const error = await resolver.resolve("/a").catch((error) => error);
+    expect(error).toBeInstanceOf(RedirectLoopError);
+    expect(error.message).toBe('Redirect loop resolving "/a": /a -> /b -> /a');
+
+    tree.addRoute("/n/:n<int>", () => "n", {
+      loader: (params) =>
+        Promise.reject(redirect(`/n/${Number(params.n) + 1}`)),
+    });
+    const limited = new RouteResolver(tree, { maxRedirects: 2 });
+    await expect(limited.resolve("/n/0")).rejects.toThrow(
+      'Redirect loop resolving "/n/0": /n/0 -> /n/1 -> /n/2 -> /n/3'
+    );
+  });
+
+  test("should abort loads superseded by a newer resolve", async () => {
+    const aborted: string[] = [];
+    tree.addRoute("/slow", () => "slow", {
+      loader: async (_params, { signal }) => {
+        signal.addEventListener("abort", () => aborted.push("slow"));
+        await delay(1000, signal);
+      },
+    });
+
+    const slow = resolver.resolve("/slow");
+    const fast = resolver.resolve("/users");
+
+    await expect(slow).rejects.toBeInstanceOf(ResolveAbortedError);
+    expect(aborted).toEqual(["slow"]);
+    expect((await fast)!.routes[0].data).toEqual(["ada", "grace"]);
+  });
+
+  test("should abort when the caller's signal aborts", async () => {
+    tree.addRoute("/slow", () => "slow", {
+      loader: (_params, { signal }) => delay(1000, signal),
+    });
+    const controller = new AbortController();
+
+    const slow = resolver.resolve("/slow", { signal: controller.signal });
+    controller.abort();
+    await expect(slow).rejects.toThrow('Resolving "/slow" was aborted');
+  });
+});
@@ -0,0 +1,248 @@
+// Data loading for matched routes: RouteResolver runs the loaders of every
+// route of a matched branch in parallel, follows the redirects they throw and
+// aborts the loads of a resolve once a newer one starts.
+
+import type { GuardOutcome } from "./routeMiddleware";
+import type {
+  RouteBranchEntry,
+  RouteHandler,
+  RouteParams,
+  RouteTree,
+} from "./RouteTree";
+import { parseUrl, type RouteQuery } from "./routeUrl";
+
+export interface LoaderContext {
+  // Aborted when the load is no longer needed
+  signal: AbortSignal;
+  query: RouteQuery;
+}
+
+// Throw redirect() (see RouteTree.use) to send the navigation elsewhere
+export type RouteLoader<TData = unknown> = (
+  params: RouteParams,
+  context: LoaderContext
+) => TData | Promise<TData>;
+
+export interface LoadedRoute<THandler = RouteHandler>
+  extends RouteBranchEntry<THandler> {
+  // What the loader returned, unset without a loader or when it failed
+  data?: unknown;
+  error?: RouteLoaderError;
+}
+
+export interface ResolvedBranch<THandler = RouteHandler> {
+  // The path that was loaded, after following redirects
+  href: string;
+  routes: LoadedRoute<THandler>[];
+  // Locations redirected to, in order
+  redirects: string[];
+  // Set when a loader redirected to another origin: the absolute URL the
+  // caller should navigate to. Routes is empty then and href the last path
+  // that was loaded
+  external?: string;
+}
+
+export interface ResolveOptions {
+  // Aborts the resolve, like a newer resolve does
+  signal?: AbortSignal;
+}
+
+export interface RouteResolverOptions {
+  // Redirects followed before giving up with a RedirectLoopError (default 10)
+  maxRedirects?: number;
+}
+
+// Set on LoadedRoute.error when a loader throws anything but a redirect
+export class RouteLoaderError extends Error {
+  constructor(public pathname: string, public cause: unknown) {
+    super(
+      `Loader of route "${pathname}" failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "RouteLoaderError";
+  }
+}
+
+// Thrown by resolve when loaders redirect back to a location already
+// visited, or more often than maxRedirects
+export class RedirectLoopError extends Error {
+  constructor(public chain: string[]) {
+    super(`Redirect loop resolving "${chain[0]}": ${chain.join(" -> ")}`);
+    this.name = "RedirectLoopError";
+  }
+}
+
+// Thrown by resolve when a newer resolve or the caller's signal aborted it
+export class ResolveAbortedError extends Error {
+  constructor(public href: string) {
+    super(`Resolving "${href}" was aborted`);
+    this.name = "ResolveAbortedError";
+  }
+}
+
+interface LoaderOutcome<THandler> {
+  route: LoadedRoute<THandler>;
+  redirect?: string;
+}
+
+export class RouteResolver<THandler = RouteHandler> {
+  // Aborts the resolve in progress
+  private controller?: AbortController;
+
+  constructor(
+    private tree: RouteTree<THandler>,
+    private options: RouteResolverOptions = {}
+  ) {}
+
+  // Matches url like RouteTree.matchBranch and runs the loaders of every
+  // route in the branch in parallel. Returns undefined when no route
+  // matches, including after a redirect.
+  async resolve(
+    url: string,
+    options: ResolveOptions = {}
+  ): Promise<ResolvedBranch<THandler> | undefined> {
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const { signal } = options;
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener("abort", onAbort);
+    try {
+      return await this.load(url, controller.signal);
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      if (this.controller === controller) {
+        this.controller = undefined;
+      }
+    }
+  }
+
+  // Aborts the resolve in progress, if any
+  abort(): void {
+    this.controller?.abort();
+  }
+
+  private async load(
+    url: string,
+    signal: AbortSignal
+  ): Promise<ResolvedBranch<THandler> | undefined> {
+    const { maxRedirects = 10 } = this.options;
+    const redirects: string[] = [];
+    let href = url;
+
+    for (;;) {
+      const branch = this.tree.matchBranch(href);
+      if (!branch) return undefined;
+      const query = parseUrl(href)?.query ?? {};
+
+      // A redirect aborts the other loads of the same branch
+      const attempt = new AbortController();
+      const abortAttempt = () => attempt.abort();
+      signal.addEventListener("abort", abortAttempt);
+      let outcomes: LoaderOutcome<THandler>[];
+      try {
+        outcomes = await abortable(
+          Promise.all(
+            branch.map((route) => this.runLoader(route, query, attempt))
+          ),
+          signal,
+          () => new ResolveAbortedError(url)
+        );
+      } finally {
+        signal.removeEventListener("abort", abortAttempt);
+      }
+
+      const redirect = outcomes.find((outcome) => outcome.redirect)?.redirect;
+      if (redirect === undefined) {
+        return { href, routes: outcomes.map(({ route }) => route), redirects };
+      }
+
+      const location = resolveLocation(redirect, href);
+      if (location.origin !== localOrigin) {
+        redirects.push(location.href);
+        return { href, routes: [], redirects, external: location.href };
+      }
+      const next = location.pathname + location.search + location.hash;
+      if (
+        next === url ||
+        redirects.includes(next) ||
+        redirects.length >= maxRedirects
+      ) {
+        throw new RedirectLoopError([url, ...redirects, next]);
+      }
+      redirects.push(next);
+      href = next;
+    }
+  }
+
+  private async runLoader(
+    route: RouteBranchEntry<THandler>,
+    query: RouteQuery,
+    attempt: AbortController
+  ): Promise<LoaderOutcome<THandler>> {
+    if (!route.loader) return { route };
+
+    try {
+      const data = await route.loader(route.params, {
+        signal: attempt.signal,
+        query,
+      });
+      return { route: { ...route, data } };
+    } catch (error) {
+      if (isRedirect(error)) {
+        attempt.abort();
+        return { route, redirect: error.location };
+      }
+      return {
+        route: { ...route, error: new RouteLoaderError(route.pathname, error) },
+      };
+    }
+  }
+}
+
+function isRedirect(
+  value: unknown
+): value is Extract<GuardOutcome, { type: "redirect" }> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as GuardOutcome).type === "redirect"
+  );
+}
+
+// Stands in for the origin of the paths being resolved
+const localOrigin = "http://localhost";
+
+// Location resolved against href like a link
+function resolveLocation(location: string, href: string): URL {
+  return new URL(location, new URL(href, localOrigin));
+}
+
+// Settles like promise, or rejects with abortError once signal aborts
+function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+  abortError: () => Error
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort);
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, test, expect } from "vitest";
+
+import { MANIFEST_VERSION, validateManifest } from "./routeManifest";
+
+describe("validateManifest", () => {
+  const manifest = {
+    version: MANIFEST_VERSION,
+    options: {},
+    names: { user: "/users/:id" },
+    root: {
+      handler: "home",
+      static: {
+        users: {
+          params: [
+            { segment: ":id", pattern: "/users/:id", node: { handler: "u" } },
+          ],
+        },
+      },
+    },
+  };
+
+  test("should accept manifests of the current version", () => {
+    expect(validateManifest(manifest)).toBe(manifest);
+  });
+
+  test("should accept older versions and reject unknown ones", () => {
+    const older = { ...manifest, version: 1 };
+    expect(validateManifest(older)).toBe(older);
+
+    expect(() => validateManifest({ ...manifest, version: 0 })).toThrow(
+      `Unsupported route manifest version 0: Expected 1 to ${MANIFEST_VERSION}`
+    );
+    expect(() =>
+      validateManifest({ ...manifest, version: MANIFEST_VERSION + 1 })
+    ).toThrow(`Unsupported route manifest version ${MANIFEST_VERSION + 1}`);
+    expect(() => validateManifest({ ...manifest, version: "2" })).toThrow(
+      'Unsupported route manifest version "2"'
+    );
+    expect(() => validateManifest("{}")).toThrow(
+      "Invalid route manifest: Expected an object"
+    );
+  });
+
+  test("should report where the manifest is malformed", () => {
+    expect(() =>
+      validateManifest({
+        ...manifest,
+        root: { static: { users: { params: [{ segment: ":id" }] } } },
+      })
+    ).toThrow(
+      'Invalid route manifest: "root.static.users.params[0]" must have a segment and a pattern'
+    );
+    expect(() =>
+      validateManifest({ ...manifest, root: { methods: { GET: 1 } } })
+    ).toThrow('Invalid route manifest: "root.methods.GET" must be a string');
+    expect(() => validateManifest({ ...manifest, names: [] })).toThrow(
+      'Invalid route manifest: "names" must be an object'
+    );
+    expect(() =>
+      validateManifest({ ...manifest, root: { meta: { GET: "title" } } })
+    ).toThrow('Invalid route manifest: "root.meta.GET" must be an object');
+  });
+});
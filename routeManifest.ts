@@ -0,0 +1,165 @@
+// The JSON form of a route tree written by RouteTree.toJSON and loaded by
+// RouteTree.fromJSON. Handlers are referenced by the id they were added with.
+
+import type { RouteLocale, RouteMeta, RouteTreeOptions } from "./RouteTree";
+
+// Bumped whenever the manifest format changes. 2 added handler metadata
+// and 3 the locales of localized routes.
+export const MANIFEST_VERSION = 3;
+
+export interface RouteManifest {
+  version: number;
+  options: RouteTreeOptions;
+  // Route patterns by route name
+  names: Record<string, string>;
+  root: ManifestNode;
+}
+
+export interface ManifestNode {
+  // Handler ids: for every method, of the index route, by method
+  handler?: string;
+  index?: string;
+  methods?: Record<string, string>;
+  // Metadata of the handlers above, by method, "*" and "index"
+  meta?: Record<string, RouteMeta>;
+  // Locales of the handlers above added with addLocalizedRoute, by slot
+  locales?: Record<string, RouteLocale>;
+  // Declared param names by shared name (see allowParamAliases)
+  aliases?: Record<string, string>;
+  // Children by their registered literal
+  static?: Record<string, ManifestNode>;
+  // Segments mixing literals and params, most specific first
+  mixed?: ManifestChild[];
+  // Constrained params, then the unconstrained one
+  params?: ManifestChild[];
+  splat?: ManifestNode;
+}
+
+export interface ManifestChild {
+  // The segment as written in a route, e.g. ":id<int>" or ":name.:ext"
+  segment: string;
+  // Route that first declared the segment
+  pattern: string;
+  node: ManifestNode;
+}
+
+// Checks that value has the shape of a manifest of a known version. Older
+// versions are a subset of the current one, so they load as they are.
+export function validateManifest(value: unknown): RouteManifest {
+  if (!isObject(value)) {
+    throw new Error("Invalid route manifest: Expected an object");
+  }
+  const { version } = value;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > MANIFEST_VERSION
+  ) {
+    throw new Error(
+      `Unsupported route manifest version ${JSON.stringify(version)}: Expected 1 to ${MANIFEST_VERSION}`
+    );
+  }
+  if (!isObject(value.options)) {
+    throw new Error('Invalid route manifest: "options" must be an object');
+  }
+  checkStrings(value.names, "names");
+  checkNode(value.root, "root");
+  return value as unknown as RouteManifest;
+}
+
+function checkNode(value: unknown, at: string): void {
+  if (!isObject(value)) {
+    throw new Error(`Invalid route manifest: "${at}" must be an object`);
+  }
+
+  for (const key of ["handler", "index"]) {
+    if (value[key] !== undefined && typeof value[key] !== "string") {
+      throw new Error(
+        `Invalid route manifest: "${at}.${key}" must be a handler id`
+      );
+    }
+  }
+  if (value.methods !== undefined) checkStrings(value.methods, `${at}.methods`);
+  if (value.aliases !== undefined) checkStrings(value.aliases, `${at}.aliases`);
+  if (value.meta !== undefined) {
+    if (!isObject(value.meta)) {
+      throw new Error(`Invalid route manifest: "${at}.meta" must be an object`);
+    }
+    for (const slot in value.meta) {
+      if (!isObject(value.meta[slot])) {
+        throw new Error(
+          `Invalid route manifest: "${at}.meta.${slot}" must be an object`
+        );
+      }
+    }
+  }
+
+  if (value.locales !== undefined) {
+    if (!isObject(value.locales)) {
+      throw new Error(
+        `Invalid route manifest: "${at}.locales" must be an object`
+      );
+    }
+    for (const slot in value.locales) {
+      const route = value.locales[slot];
+      if (!isObject(route) || typeof route.locale !== "string") {
+        throw new Error(
+          `Invalid route manifest: "${at}.locales.${slot}" must have a locale`
+        );
+      }
+      checkStrings(route.paths, `${at}.locales.${slot}.paths`);
+    }
+  }
+
+  if (value.static !== undefined) {
+    if (!isObject(value.static)) {
+      throw new Error(
+        `Invalid route manifest: "${at}.static" must be an object`
+      );
+    }
+    for (const literal in value.static) {
+      checkNode(value.static[literal], `${at}.static.${literal}`);
+    }
+  }
+  for (const key of ["mixed", "params"]) {
+    if (value[key] === undefined) continue;
+    const children = value[key];
+    if (!Array.isArray(children)) {
+      throw new Error(
+        `Invalid route manifest: "${at}.${key}" must be an array`
+      );
+    }
+    children.forEach((child, index) => {
+      const childAt = `${at}.${key}[${index}]`;
+      if (
+        !isObject(child) ||
+        typeof child.segment !== "string" ||
+        typeof child.pattern !== "string"
+      ) {
+        throw new Error(
+          `Invalid route manifest: "${childAt}" must have a segment and a pattern`
+        );
+      }
+      checkNode(child.node, `${childAt}.node`);
+    });
+  }
+  if (value.splat !== undefined) checkNode(value.splat, `${at}.splat`);
+}
+
+function checkStrings(value: unknown, at: string): void {
+  if (!isObject(value)) {
+    throw new Error(`Invalid route manifest: "${at}" must be an object`);
+  }
+  for (const key in value) {
+    if (typeof value[key] !== "string") {
+      throw new Error(
+        `Invalid route manifest: "${at}.${key}" must be a string`
+      );
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
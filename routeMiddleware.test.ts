@@ -0,0 +1,63 @@
+import { describe, test, expect } from "vitest";
+
+import { deny, redirect, runMiddleware } from "./routeMiddleware";
+import type { RouteMatch } from "./RouteTree";
+
+const match: RouteMatch = {
+  handler: () => "page",
+  params: {},
+  values: {},
+  query: {},
+};
+
+describe("runMiddleware", () => {
+  test("should run middleware in order and allow by default", async () => {
+    const calls: string[] = [];
+    const outcome = await runMiddleware(
+      [
+        () => {
+          calls.push("first");
+        },
+        async () => {
+          calls.push("second");
+          return { type: "allow" };
+        },
+      ],
+      {},
+      match
+    );
+
+    expect(outcome).toEqual({ type: "allow" });
+    expect(calls).toEqual(["first", "second"]);
+  });
+
+  test("should stop at the first redirect or deny", async () => {
+    const calls: string[] = [];
+    const outcome = await runMiddleware(
+      [
+        () => redirect("/login"),
+        () => {
+          calls.push("skipped");
+        },
+      ],
+      {},
+      match
+    );
+
+    expect(outcome).toEqual({
+      type: "redirect",
+      location: "/login",
+      status: 302,
+    });
+    expect(calls).toEqual([]);
+  });
+
+  test("should build deny outcomes", () => {
+    expect(deny()).toEqual({ type: "deny", status: 403, reason: undefined });
+    expect(deny(401, "Sign in first")).toEqual({
+      type: "deny",
+      status: 401,
+      reason: "Sign in first",
+    });
+  });
+});
@@ -0,0 +1,55 @@
+// Guards and context loaders that RouteTree.use attaches under a prefix, and
+// the chain RouteTree.dispatch runs before the matched handler.
+
+import type { RouteHandler, RouteMatch } from "./RouteTree";
+
+export type GuardOutcome =
+  | { type: "allow" }
+  | { type: "redirect"; location: string; status: number }
+  | { type: "deny"; status: number; reason?: string };
+
+// Returns nothing to continue, possibly after adding to the context, or an
+// outcome other than "allow" to stop before the handler runs
+export type Middleware<TContext = unknown, THandler = RouteHandler> = (
+  context: TContext,
+  match: RouteMatch<THandler>
+) => GuardOutcome | void | Promise<GuardOutcome | void>;
+
+// What a handler returns once awaited, for DispatchResult.result
+export type HandlerResult<THandler> = THandler extends (
+  ...args: never[]
+) => infer TResult
+  ? Awaited<TResult>
+  : undefined;
+
+export interface DispatchResult<THandler, TContext> {
+  match: RouteMatch<THandler>;
+  // { type: "allow" } unless a middleware redirected or denied
+  outcome: GuardOutcome;
+  context: TContext;
+  // What the handler returned, only set when the outcome is "allow"
+  result?: HandlerResult<THandler>;
+}
+
+export function redirect(location: string, status = 302): GuardOutcome {
+  return { type: "redirect", location, status };
+}
+
+export function deny(status = 403, reason?: string): GuardOutcome {
+  return { type: "deny", status, reason };
+}
+
+// Runs middleware in order, one at a time, until one stops the chain
+export async function runMiddleware<TContext, THandler>(
+  chain: Middleware<TContext, THandler>[],
+  context: TContext,
+  match: RouteMatch<THandler>
+): Promise<GuardOutcome> {
+  for (const middleware of chain) {
+    const outcome = await middleware(context, match);
+    if (outcome && outcome.type !== "allow") {
+      return outcome;
+    }
+  }
+  return { type: "allow" };
+}
@@ -0,0 +1,153 @@
+import { describe, test, expect, beforeEach } from "vitest";
+
+import { MemoryHistory } from "./routeHistory";
+import { NavigationController, type NavigationEvent } from "./routeNavigation";
+import { RouteTree } from "./RouteTree";
+
+describe("NavigationController", () => {
+  let tree: RouteTree;
+  let history: MemoryHistory;
+  let navigation: NavigationController;
+
+  beforeEach(() => {
+    tree = new RouteTree();
+    tree.addRoute("/", () => "home");
+    tree.addRoute("/users/:id", () => "user");
+    tree.addRoute("/users/:id/edit", () => "edit");
+    history = new MemoryHistory(["/"]);
+    navigation = new NavigationController(tree, history);
+  });
+
+  test("should match the initial location", () => {
+    expect(navigation.location.href).toBe("/");
+    expect(navigation.match!.handler()).toBe("home");
+  });
+
+  test("should push, replace and notify subscribers", () => {
+    const events: NavigationEvent[] = [];
+    navigation.subscribe((event) => events.push(event));
+
+    expect(navigation.navigate("/users/1?tab=posts", { state: 1 })).toBe(true);
+    navigation.navigate("edit", { replace: true });
+
+    expect(
+      events.map(({ action, location }) => [action, location.href])
+    ).toEqual([
+      ["push", "/users/1?tab=posts"],
+      ["replace", "/users/edit"],
+    ]);
+    expect(events[0].match!.params).toEqual({ id: "1" });
+    expect(events[0].location.state).toBe(1);
+    expect(history.history().map(({ href }) => href)).toEqual([
+      "/",
+      "/users/edit",
+    ]);
+  });
+
+  test("should follow back and forward moves", () => {
+    navigation.navigate("/users/1");
+    navigation.navigate("/users/1/edit");
+    const actions: string[] = [];
+    navigation.subscribe(({ action, location }) =>
+      actions.push(`${action} ${location.href}`)
+    );
+
+    navigation.back();
+    navigation.back();
+    navigation.forward();
+
+    expect(actions).toEqual(["pop /users/1", "pop /", "pop /users/1"]);
+    expect(navigation.match!.params).toEqual({ id: "1" });
+  });
+
+  test("should report locations no route matches", () => {
+    navigation.navigate("/missing");
+    expect(navigation.match).toBeUndefined();
+
+    navigation.navigate("/users/%E0%A4%A");
+    expect(navigation.match).toBeUndefined();
+  });
+
+  test("should reject targets on other origins", () => {
+    expect(() => navigation.navigate("https://example.com/")).toThrow(
+      'Invalid navigation target "https://example.com/": Must be on http://localhost'
+    );
+  });
+
+  test("should let blockers keep the current location", () => {
+    navigation.navigate("/users/1/edit");
+    let unsaved = true;
+    const transitions: string[] = [];
+    const unblock = navigation.block(({ action, to }) => {
+      transitions.push(`${action} ${to}`);
+      return !unsaved;
+    });
+
+    expect(navigation.navigate("/")).toBe(false);
+    navigation.back();
+    expect(navigation.location.href).toBe("/users/1/edit");
+    expect(history.location().href).toBe("/users/1/edit");
+    expect(transitions).toEqual(["push /", "pop /"]);
+
+    unsaved = false;
+    navigation.back();
+    expect(navigation.location.href).toBe("/");
+
+    unblock();
+    unsaved = true;
+    expect(navigation.navigate("/users/2")).toBe(true);
+  });
+
+  test("should restore scroll positions on back and forward", () => {
+    history.position = { x: 0, y: 300 };
+    navigation.navigate("/users/1");
+    expect(history.position).toEqual({ x: 0, y: 0 });
+
+    history.position = { x: 0, y: 50 };
+    navigation.back();
+    expect(history.position).toEqual({ x: 0, y: 300 });
+
+    navigation.forward();
+    expect(history.position).toEqual({ x: 0, y: 50 });
+  });
+
+  test("should handle clicks on links to routes", () => {
+    const click = (href: string, init: Partial<MouseEvent> = {}) => {
+      const url = new URL(href, "http://localhost");
+      const anchor = {
+        target: "",
+        origin: url.origin,
+        pathname: url.pathname,
+        search: url.search,
+        hash: url.hash,
+        hasAttribute: () => false,
+      };
+      let prevented = false;
+      const event = {
+        button: 0,
+        defaultPrevented: false,
+        target: { closest: () => anchor },
+        preventDefault: () => {
+          prevented = true;
+        },
+        ...init,
+      } as unknown as MouseEvent;
+      return [navigation.handleLinkClick(event), prevented];
+    };
+
+    expect(click("/users/3")).toEqual([true, true]);
+    expect(navigation.location.href).toBe("/users/3");
+    expect(click("/missing")).toEqual([false, false]);
+    expect(click("https://example.com/users/4")).toEqual([false, false]);
+    expect(click("/users/4", { metaKey: true })).toEqual([false, false]);
+    expect(navigation.location.href).toBe("/users/3");
+  });
+
+  test("should stop following history when destroyed", () => {
+    navigation.navigate("/users/1");
+    navigation.destroy();
+    history.go(-1);
+
+    expect(navigation.location.href).toBe("/users/1");
+  });
+});
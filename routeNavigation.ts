@@ -0,0 +1,231 @@
+// Client-side navigation over a history adapter: matches every location
+// against a route tree, notifies subscribers, lets transitions be blocked
+// (e.g. on unsaved changes), intercepts link clicks and restores scroll
+// positions on back and forward.
+
+import type {
+  HistoryAdapter,
+  HistoryEntry,
+  ScrollPosition,
+} from "./routeHistory";
+import {
+  RouteDecodeError,
+  type CompiledMatcher,
+  type RouteHandler,
+  type RouteMatch,
+} from "./RouteTree";
+
+export type NavigationAction = "push" | "replace" | "pop";
+
+export interface NavigateOptions {
+  // Replace the current entry instead of adding one
+  replace?: boolean;
+  state?: unknown;
+}
+
+export interface NavigationEvent<THandler = RouteHandler> {
+  action: NavigationAction;
+  location: HistoryEntry;
+  // Undefined when no route matches the location
+  match?: RouteMatch<THandler>;
+}
+
+export interface Transition {
+  action: NavigationAction;
+  from: HistoryEntry;
+  // Path, query and fragment being navigated to
+  to: string;
+}
+
+// Returns false to keep the current location, e.g. after a confirm dialog
+export type Blocker = (transition: Transition) => boolean;
+
+export class NavigationController<THandler = RouteHandler> {
+  private current: NavigationEvent<THandler>;
+  private listeners: Array<(event: NavigationEvent<THandler>) => void> = [];
+  private blockers: Blocker[] = [];
+  // Scroll positions of the entries left, by key
+  private positions: Map<string, ScrollPosition> = new Map();
+  // Pops caused by undoing a blocked back or forward move
+  private ignoredPops = 0;
+  private unlisten: () => void;
+
+  // routes is a RouteTree or the matcher its compile returns
+  constructor(
+    private routes: CompiledMatcher<THandler>,
+    private history: HistoryAdapter
+  ) {
+    const location = history.location();
+    this.current = {
+      action: "pop",
+      location,
+      match: this.matchHref(location.href),
+    };
+    this.unlisten = history.listen((entry) => this.onPop(entry));
+  }
+
+  get location(): HistoryEntry {
+    return this.current.location;
+  }
+
+  // Match of the current location
+  get match(): RouteMatch<THandler> | undefined {
+    return this.current.match;
+  }
+
+  // Goes to to, resolved against the current location like a link's href.
+  // Returns false if a blocker kept the current location.
+  navigate(to: string, options: NavigateOptions = {}): boolean {
+    const href = this.resolve(to);
+    const action = options.replace ? "replace" : "push";
+    if (!this.allows({ action, from: this.location, to: href })) {
+      return false;
+    }
+
+    this.savePosition();
+    if (options.replace) {
+      this.history.replace(href, options.state);
+    } else {
+      this.history.push(href, options.state);
+      // New pages start at the top, unless a fragment points elsewhere
+      if (!href.includes("#")) {
+        this.history.scrollTo?.({ x: 0, y: 0 });
+      }
+    }
+    this.update(action, this.history.location());
+    return true;
+  }
+
+  back(): void {
+    this.history.go(-1);
+  }
+
+  forward(): void {
+    this.history.go(1);
+  }
+
+  go(delta: number): void {
+    this.history.go(delta);
+  }
+
+  // Calls listener after every change of location
+  subscribe(listener: (event: NavigationEvent<THandler>) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    };
+  }
+
+  // Asks blocker before every change of location, until the returned
+  // function is called
+  block(blocker: Blocker): () => void {
+    this.blockers.push(blocker);
+    return () => {
+      this.blockers = this.blockers.filter((other) => other !== blocker);
+    };
+  }
+
+  // Navigates instead of loading a page for clicks on links to routes of
+  // this origin. Returns whether the click was handled.
+  handleLinkClick(event: MouseEvent): boolean {
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey ||
+      event.ctrlKey ||
+      event.shiftKey ||
+      event.altKey
+    ) {
+      return false;
+    }
+
+    const anchor = (event.target as Element | null)?.closest?.("a");
+    if (
+      !anchor ||
+      (anchor.target && anchor.target !== "_self") ||
+      anchor.hasAttribute("download") ||
+      anchor.origin !== this.history.origin
+    ) {
+      return false;
+    }
+
+    const href = anchor.pathname + anchor.search + anchor.hash;
+    if (!this.matchHref(href)) return false;
+
+    event.preventDefault();
+    this.navigate(href);
+    return true;
+  }
+
+  // Handles clicks on links inside target, e.g. document
+  interceptLinks(target: EventTarget): () => void {
+    const onClick = (event: Event) => {
+      this.handleLinkClick(event as MouseEvent);
+    };
+    target.addEventListener("click", onClick);
+    return () => target.removeEventListener("click", onClick);
+  }
+
+  // Stops following the history adapter
+  destroy(): void {
+    this.unlisten();
+    this.listeners = [];
+    this.blockers = [];
+  }
+
+  private onPop(entry: HistoryEntry): void {
+    if (this.ignoredPops > 0) {
+      this.ignoredPops--;
+      return;
+    }
+
+    const from = this.location;
+    if (!this.allows({ action: "pop", from, to: entry.href })) {
+      // The browser has already moved, so move back to where we were
+      this.ignoredPops++;
+      this.history.go(from.index - entry.index);
+      return;
+    }
+
+    this.savePosition();
+    this.update("pop", entry);
+    this.history.scrollTo?.(this.positions.get(entry.key) ?? { x: 0, y: 0 });
+  }
+
+  private allows(transition: Transition): boolean {
+    return this.blockers.every((blocker) => blocker(transition));
+  }
+
+  private update(action: NavigationAction, location: HistoryEntry): void {
+    this.current = { action, location, match: this.matchHref(location.href) };
+    this.listeners.forEach((listener) => listener(this.current));
+  }
+
+  private savePosition(): void {
+    const position = this.history.scrollPosition?.();
+    if (position) {
+      this.positions.set(this.location.key, position);
+    }
+  }
+
+  private resolve(to: string): string {
+    const { origin } = this.history;
+    const url = new URL(to, origin + this.location.href);
+    if (url.origin !== origin) {
+      throw new Error(
+        `Invalid navigation target "${to}": Must be on ${origin}`
+      );
+    }
+    return url.pathname + url.search + url.hash;
+  }
+
+  // Malformed paths match no route rather than failing the navigation
+  private matchHref(href: string): RouteMatch<THandler> | undefined {
+    try {
+      return this.routes.match(href);
+    } catch (error) {
+      if (error instanceof RouteDecodeError) return undefined;
+      throw error;
+    }
+  }
+}
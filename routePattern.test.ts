@@ -0,0 +1,106 @@
+import { describe, test, expect } from "vitest";
+
+import { expandOptionalSegments, parsePattern } from "./routePattern";
+
+describe("parsePattern", () => {
+  test("should parse literal, param and splat segments", () => {
+    expect(parsePattern("/")).toEqual([]);
+    expect(parsePattern("/users/:id/$")).toEqual([
+      { type: "static", value: "users" },
+      { type: "param", name: "id", optional: false, constraint: undefined },
+      { type: "splat" },
+    ]);
+  });
+
+  test("should parse optional and constrained params", () => {
+    const [lang, id, status] = parsePattern("/:lang?/:id(\\d+)/:s<a|b>?");
+
+    expect(lang).toMatchObject({ name: "lang", optional: true });
+    expect(id).toMatchObject({
+      name: "id",
+      optional: false,
+      constraint: { source: "(\\d+)" },
+    });
+    expect(status).toMatchObject({
+      name: "s",
+      optional: true,
+      constraint: { source: "<a|b>" },
+    });
+  });
+
+  test("should check and coerce built-in param types", () => {
+    const [int, number, uuid] = parsePattern("/:a<int>/:b<number>/:c<uuid>");
+    if (int.type !== "param" || number.type !== "param") throw new Error();
+    if (uuid.type !== "param") throw new Error();
+
+    expect(int.constraint!.test("-42")).toBe(true);
+    expect(int.constraint!.test("4.2")).toBe(false);
+    expect(int.constraint!.test("99999999999999999999")).toBe(false);
+    expect(int.constraint!.coerce("-42")).toBe(-42);
+
+    expect(number.constraint!.test("4.2")).toBe(true);
+    expect(number.constraint!.test("4.")).toBe(false);
+    expect(number.constraint!.coerce("4.2")).toBe(4.2);
+
+    const id = "6F9619FF-8B86-D011-B42D-00CF4FC964FF";
+    expect(uuid.constraint!.test(id)).toBe(true);
+    expect(uuid.constraint!.test("not-a-uuid")).toBe(false);
+    expect(uuid.constraint!.coerce(id)).toBe(id.toLowerCase());
+  });
+
+  test("should parse segments mixing literals and params", () => {
+    const [segment] = parsePattern("/@:user.:format<json|xml>");
+    if (segment.type !== "mixed") throw new Error();
+
+    expect(segment.parts).toMatchObject([
+      "@",
+      { name: "user" },
+      ".",
+      { name: "format", constraint: { source: "<json|xml>" } },
+    ]);
+    expect(segment.key).toEqual("@:.:<json|xml>");
+    expect(segment.match("@connor.json")).toEqual(["connor", "json"]);
+    expect(segment.match("@connor.yaml")).toBeUndefined();
+    expect(segment.match("connor.json")).toBeUndefined();
+  });
+
+  test("should skip groups of regex constraints in mixed segments", () => {
+    const [segment] = parsePattern("/:a((x)+)-:b<int>");
+    if (segment.type !== "mixed") throw new Error();
+
+    expect(segment.match("xx-42")).toEqual(["xx", "42"]);
+    expect(segment.match("xy-42")).toBeUndefined();
+  });
+
+  test("should reject malformed segments", () => {
+    expect(() => parsePattern("/a/$/b")).toThrow(
+      'Invalid route path "/a/$/b": Splat ($) must be the last segment'
+    );
+    expect(() => parsePattern("/:")).toThrow(
+      'Invalid route path "/:": Malformed parameter ":"'
+    );
+    expect(() => parsePattern("/:id<integer>")).toThrow(
+      'Invalid route path "/:id<integer>": Unknown parameter type "<integer>"'
+    );
+    expect(() => parsePattern("/:a.:b?")).toThrow(
+      'Invalid route path "/:a.:b?": Optional parameter ":b" must be a whole segment'
+    );
+    expect(() => parsePattern("/:id([)")).toThrow(
+      'Invalid route path "/:id([)": Invalid parameter constraint "([)"'
+    );
+  });
+});
+
+describe("expandOptionalSegments", () => {
+  test("should expand every combination of optional params", () => {
+    const variants = expandOptionalSegments(parsePattern("/:lang?/docs/:v?"));
+
+    expect(
+      variants.map((segments) =>
+        segments.map((segment) =>
+          segment.type === "static" ? segment.value : ":"
+        )
+      )
+    ).toEqual([["docs"], [":", "docs"], ["docs", ":"], [":", "docs", ":"]]);
+  });
+});
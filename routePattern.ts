@@ -0,0 +1,289 @@
+// Parsing of the segments RouteTree.addRoute accepts: literals, ":name"
+// params (optionally typed, constrained or optional), segments mixing
+// literals and params such as ":name.:ext", and the "$" splat.
+
+export type ParamValue = string | number;
+
+export interface ParamConstraint {
+  // The constraint as written in the pattern, e.g. "<int>" or "(\d+)"
+  source: string;
+  // Unanchored regex source for the values, used inside mixed segments
+  pattern: string;
+  test(value: string): boolean;
+  coerce(value: string): ParamValue;
+}
+
+export interface MixedParam {
+  name: string;
+  constraint?: ParamConstraint;
+}
+
+export interface MixedSegment {
+  type: "mixed";
+  // Literal text and params in order, e.g. ["@", { name: "username" }]
+  parts: Array<string | MixedParam>;
+  // The segment without param names, shared by equivalent patterns
+  key: string;
+  // Values of the params in order as written, or undefined if value
+  // doesn't match
+  match(value: string): string[] | undefined;
+}
+
+export type PatternSegment =
+  | { type: "static"; value: string }
+  | {
+      type: "param";
+      name: string;
+      optional: boolean;
+      constraint?: ParamConstraint;
+    }
+  | MixedSegment
+  | { type: "splat" };
+
+interface ParamType {
+  pattern: string;
+  test(value: string): boolean;
+  coerce(value: string): ParamValue;
+}
+
+// Built-in types for ":name<type>" params
+const paramTypes: Record<string, ParamType> = {
+  int: {
+    pattern: "-?\\d+",
+    test: (value) =>
+      /^-?\d+$/.test(value) && Number.isSafeInteger(Number(value)),
+    coerce: (value) => Number(value),
+  },
+  number: {
+    pattern: "-?\\d+(?:\\.\\d+)?",
+    test: (value) => /^-?\d+(\.\d+)?$/.test(value),
+    coerce: (value) => Number(value),
+  },
+  uuid: {
+    pattern: "[0-9a-fA-F]{8}(?:-[0-9a-fA-F]{4}){3}-[0-9a-fA-F]{12}",
+    test: (value) =>
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+        value
+      ),
+    coerce: (value) => value.toLowerCase(),
+  },
+};
+
+// ":name", then an optional "<type>" or "(regex)", then an optional "?".
+// The name of a segment's only param runs up to its type, so ":post.id"
+// declares "post.id".
+const paramSegmentPattern = /^:([^:(<?]+)(<[^>]*>|\(.*\))?(\?)?$/;
+
+// Param names inside mixed segments end at the first other character
+const mixedParamName = /^[A-Za-z0-9_]+/;
+
+// Parses a normalized route path ("/" or "/a/:b/$") into its segments
+export function parsePattern(path: string): PatternSegment[] {
+  if (path === "/") return [];
+
+  const segments = path.split("/").slice(1);
+  return segments.map((segment, index) => {
+    if (segment === "$") {
+      if (index !== segments.length - 1) {
+        throw new Error(
+          `Invalid route path "${path}": Splat ($) must be the last segment`
+        );
+      }
+      return { type: "splat" };
+    }
+
+    const match = paramSegmentPattern.exec(segment);
+    if (!match) {
+      return segment.includes(":")
+        ? parseMixedSegment(path, segment)
+        : { type: "static", value: segment };
+    }
+
+    const [, name, constraintSource, optional] = match;
+    return {
+      type: "param",
+      name,
+      optional: optional !== undefined,
+      constraint: constraintSource
+        ? parseConstraint(path, constraintSource)
+        : undefined,
+    };
+  });
+}
+
+function parseMixedSegment(path: string, segment: string): PatternSegment {
+  const parts: Array<string | MixedParam> = [];
+  let literal = "";
+  let index = 0;
+
+  while (index < segment.length) {
+    const name =
+      segment[index] === ":" && mixedParamName.exec(segment.slice(index + 1));
+    if (!name) {
+      literal += segment[index++];
+      continue;
+    }
+
+    if (literal) parts.push(literal);
+    literal = "";
+    index += 1 + name[0].length;
+
+    let constraint: ParamConstraint | undefined;
+    const end = constraintEnd(segment, index);
+    if (end > index) {
+      constraint = parseConstraint(path, segment.slice(index, end));
+      index = end;
+    }
+    if (segment[index] === "?") {
+      throw new Error(
+        `Invalid route path "${path}": Optional parameter ":${name[0]}" must be a whole segment`
+      );
+    }
+    parts.push({ name: name[0], constraint });
+  }
+  if (literal) parts.push(literal);
+
+  // A ":" followed by no name is literal text, except at the start where
+  // it was meant to declare a param
+  if (parts.every((part) => typeof part === "string")) {
+    if (segment.startsWith(":")) {
+      throw new Error(
+        `Invalid route path "${path}": Malformed parameter "${segment}"`
+      );
+    }
+    return { type: "static", value: segment };
+  }
+
+  for (let i = 1; i < parts.length; i++) {
+    if (typeof parts[i] !== "string" && typeof parts[i - 1] !== "string") {
+      throw new Error(
+        `Invalid route path "${path}": Parameters in "${segment}" must be separated by literal text`
+      );
+    }
+  }
+
+  // One capture group per param, after any groups of its own constraint
+  const groupIndexes: number[] = [];
+  let groupCount = 0;
+  const source = parts
+    .map((part) => {
+      if (typeof part === "string") return escapeRegExp(part);
+
+      groupIndexes.push(++groupCount);
+      const pattern = part.constraint?.pattern ?? ".+?";
+      groupCount += new RegExp(`${pattern}|`).exec("")!.length - 1;
+      return `(${pattern})`;
+    })
+    .join("");
+  const regex = new RegExp(`^${source}$`);
+  const params = parts.filter(
+    (part): part is MixedParam => typeof part !== "string"
+  );
+
+  return {
+    type: "mixed",
+    parts,
+    key: parts
+      .map((part) =>
+        typeof part === "string" ? part : `:${part.constraint?.source ?? ""}`
+      )
+      .join(""),
+    match(value) {
+      const match = regex.exec(value);
+      if (!match) return undefined;
+
+      const values: string[] = [];
+      for (let i = 0; i < params.length; i++) {
+        const value = match[groupIndexes[i]];
+        const { constraint } = params[i];
+        if (constraint && !constraint.test(value)) return undefined;
+        values.push(value);
+      }
+      return values;
+    },
+  };
+}
+
+// Index just past a "<type>" or balanced "(regex)" starting at index, or
+// index itself when there is none
+function constraintEnd(segment: string, index: number): number {
+  if (segment[index] === "<") {
+    const close = segment.indexOf(">", index);
+    return close === -1 ? index : close + 1;
+  }
+  if (segment[index] !== "(") return index;
+
+  let depth = 0;
+  for (let i = index; i < segment.length; i++) {
+    if (segment[i] === "\\") {
+      i++;
+    } else if (segment[i] === "(") {
+      depth++;
+    } else if (segment[i] === ")" && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return index;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseConstraint(path: string, source: string): ParamConstraint {
+  const body = source.slice(1, -1);
+
+  if (source.startsWith("(")) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(`^(?:${body})$`);
+    } catch {
+      throw new Error(
+        `Invalid route path "${path}": Invalid parameter constraint "${source}"`
+      );
+    }
+    return {
+      source,
+      pattern: body,
+      test: (value) => regex.test(value),
+      coerce: (value) => value,
+    };
+  }
+
+  const paramType = paramTypes[body];
+  if (paramType) {
+    return { source, ...paramType };
+  }
+
+  // Anything else in angle brackets lists the allowed values, e.g. <a|b>
+  const values = body.split("|");
+  if (values.length < 2 || values.includes("")) {
+    throw new Error(
+      `Invalid route path "${path}": Unknown parameter type "${source}"`
+    );
+  }
+  return {
+    source,
+    pattern: values.map(escapeRegExp).join("|"),
+    test: (value) => values.includes(value),
+    coerce: (value) => value,
+  };
+}
+
+// Expands optional params into every combination of present and absent
+// segments, e.g. "/:lang?/docs" into "/docs" and "/:lang/docs"
+export function expandOptionalSegments(
+  segments: PatternSegment[]
+): PatternSegment[][] {
+  let variants: PatternSegment[][] = [[]];
+
+  for (const segment of segments) {
+    const withSegment = variants.map((variant) => [...variant, segment]);
+    variants =
+      segment.type === "param" && segment.optional
+        ? [...variants, ...withSegment]
+        : withSegment;
+  }
+
+  return variants;
+}
@@ -0,0 +1,87 @@
+import { describe, test, expect } from "vitest";
+
+import {
+  decodeSegment,
+  parseQuery,
+  parseUrl,
+  RouteDecodeError,
+} from "./routeUrl";
+
+describe("parseUrl", () => {
+  test("should split paths into pathname, query and fragment", () => {
+    expect(parseUrl("/search?q=x&page=2#results")).toEqual({
+      pathname: "/search",
+      query: { q: "x", page: "2" },
+      hash: "results",
+    });
+    expect(parseUrl("/docs#a?b")).toEqual({
+      pathname: "/docs",
+      query: {},
+      hash: "a?b",
+    });
+    expect(parseUrl("/plain")).toEqual({
+      pathname: "/plain",
+      query: {},
+      hash: undefined,
+    });
+  });
+
+  test("should accept absolute URL strings and URL objects", () => {
+    expect(parseUrl("https://example.com/users/1?tab=posts")).toEqual({
+      pathname: "/users/1",
+      query: { tab: "posts" },
+      hash: undefined,
+    });
+    expect(parseUrl(new URL("http://localhost/a%20b#x%20y"))).toEqual({
+      pathname: "/a%20b",
+      query: {},
+      hash: "x y",
+    });
+  });
+
+  test("should reject relative paths and invalid URLs", () => {
+    expect(parseUrl("")).toBeUndefined();
+    expect(parseUrl("users/1")).toBeUndefined();
+    expect(parseUrl("http://")).toBeUndefined();
+  });
+});
+
+describe("parseQuery", () => {
+  test("should decode values and collect repeated keys", () => {
+    expect(parseQuery("?tag=a&tag=b%20c&tag=d&q=x+y&empty")).toEqual({
+      tag: ["a", "b c", "d"],
+      q: "x y",
+      empty: "",
+    });
+  });
+
+  test("should keep prototype property names as plain keys", () => {
+    const query = parseQuery("?__proto__=z&constructor=x&toString=y");
+
+    expect(Object.getPrototypeOf(query)).toBeNull();
+    expect(query.constructor).toBe("x");
+    expect(query.toString).toBe("y");
+    expect(query["__proto__"]).toBe("z");
+    expect(Object.keys(query)).toEqual([
+      "__proto__",
+      "constructor",
+      "toString",
+    ]);
+    expect(({} as Record<string, unknown>).z).toBeUndefined();
+  });
+});
+
+describe("decodeSegment", () => {
+  test("should decode percent-encoding", () => {
+    expect(decodeSegment("John%20Doe")).toEqual("John Doe");
+    expect(decodeSegment("a%2Fb")).toEqual("a/b");
+    expect(decodeSegment("plain")).toEqual("plain");
+  });
+
+  test("should throw a RouteDecodeError for malformed encoding", () => {
+    expect(() => decodeSegment("%E0%A4%A")).toThrow(RouteDecodeError);
+    expect(() => decodeSegment("100%")).toThrow(
+      'Malformed URL encoding in path segment "100%"'
+    );
+  });
+});
@@ -0,0 +1,109 @@
+// Splitting of the URLs RouteTree.match accepts into the pathname it routes
+// on and the query and fragment it reports back.
+
+export interface RouteQuery {
+  [key: string]: string | string[];
+}
+
+export interface ParsedUrl {
+  pathname: string;
+  query: RouteQuery;
+  hash?: string;
+}
+
+// Thrown when a path segment is not valid percent-encoding, so callers can
+// answer with a 400 instead of treating it as a missing route
+export class RouteDecodeError extends Error {
+  constructor(public segment: string) {
+    super(`Malformed URL encoding in path segment "${segment}"`);
+    this.name = "RouteDecodeError";
+  }
+}
+
+// "scheme:" at the start of an absolute URL, e.g. "https:"
+const absoluteUrlPattern = /^[a-z][a-z\d+.-]*:/i;
+
+// Accepts a path ("/users?tab=1#top"), an absolute URL string or a URL
+// object. Returns undefined for anything else.
+export function parseUrl(input: string | URL): ParsedUrl | undefined {
+  let pathname: string;
+  let search: string;
+  let hash: string;
+
+  if (typeof input !== "string") {
+    ({ pathname, search, hash } = input);
+  } else if (input.startsWith("/")) {
+    const hashIndex = input.indexOf("#");
+    hash = hashIndex === -1 ? "" : input.slice(hashIndex);
+    const beforeHash = hashIndex === -1 ? input : input.slice(0, hashIndex);
+
+    const searchIndex = beforeHash.indexOf("?");
+    search = searchIndex === -1 ? "" : beforeHash.slice(searchIndex);
+    pathname =
+      searchIndex === -1 ? beforeHash : beforeHash.slice(0, searchIndex);
+  } else if (absoluteUrlPattern.test(input)) {
+    try {
+      ({ pathname, search, hash } = new URL(input));
+    } catch {
+      return undefined;
+    }
+  } else {
+    return undefined;
+  }
+
+  return {
+    pathname,
+    query: parseQuery(search),
+    hash: hash.length > 1 ? safeDecode(hash.slice(1)) : undefined,
+  };
+}
+
+// Hostname of a URL object or absolute URL string, lowercased and without
+// its port. Returns undefined for paths.
+export function parseHost(input: string | URL): string | undefined {
+  if (typeof input !== "string") return input.hostname || undefined;
+  if (!absoluteUrlPattern.test(input)) return undefined;
+  try {
+    return new URL(input).hostname || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Repeated keys collect their values into an array. The result has no
+// prototype, so keys like "__proto__" or "toString" are ordinary keys.
+export function parseQuery(search: string): RouteQuery {
+  const query: RouteQuery = Object.create(null);
+  new URLSearchParams(search).forEach((value, key) => {
+    const existing = query[key];
+    if (existing === undefined) {
+      query[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      query[key] = [existing, value];
+    }
+  });
+  return query;
+}
+
+// Decodes one path segment. Runs after splitting on "/", so an encoded
+// slash (%2F) stays part of its segment.
+export function decodeSegment(segment: string): string {
+  if (!segment.includes("%")) return segment;
+
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new RouteDecodeError(segment);
+  }
+}
+
+// Fragments are informational, so a malformed one is kept as written
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
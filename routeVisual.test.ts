@@ -0,0 +1,87 @@
+import { describe, test, expect } from "vitest";
+
+import { renderVisualTree, type VisualNode } from "./routeVisual";
+
+const root: VisualNode = {
+  segment: "",
+  pattern: "/",
+  kind: "root",
+  handler: true,
+  index: false,
+  methods: [],
+  children: [
+    {
+      segment: 'say"hi"',
+      pattern: '/say"hi"',
+      kind: "static",
+      handler: false,
+      index: false,
+      methods: ["GET", "POST"],
+      children: [],
+    },
+  ],
+};
+
+describe("renderVisualTree", () => {
+  test("should render Graphviz DOT with escaped labels", () => {
+    expect(renderVisualTree(root, "dot")).toEqual(
+      [
+        "digraph routes {",
+        "  node [shape=box];",
+        '  n0 [label="/ [✓]"];',
+        '  n1 [label="say\\"hi\\" [GET, POST]"];',
+        "  n0 -> n1;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("should render Mermaid flowcharts", () => {
+    expect(renderVisualTree(root, "mermaid")).toEqual(
+      [
+        "flowchart TD",
+        '  n0["/ [✓]"]',
+        '  n1["say#quot;hi#quot; [GET, POST]"]',
+        "  n0 --> n1",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("should link the paths of localized routes", () => {
+    const paths = { en: "/products", de: "/produkte" };
+    const localized: VisualNode = {
+      ...root,
+      children: ["en", "de"].map((locale) => ({
+        segment: paths[locale as "en" | "de"].slice(1),
+        pattern: paths[locale as "en" | "de"],
+        kind: "static",
+        handler: true,
+        index: false,
+        methods: [],
+        locale,
+        paths,
+        children: [],
+      })),
+    };
+
+    expect(renderVisualTree(localized)).toEqual(
+      [
+        "Route Tree Structure:",
+        "└── / [✓]",
+        "    ├── /products [✓] [locale en]",
+        "    └── /produkte [✓] [locale de]",
+        "",
+      ].join("\n")
+    );
+    expect(renderVisualTree(localized, "dot")).toContain(
+      "  n1 -> n2 [style=dashed, dir=none];\n}"
+    );
+    expect(renderVisualTree(localized, "mermaid")).toContain("  n1 -.- n2\n");
+  });
+
+  test("should render JSON that parses back to the tree", () => {
+    expect(JSON.parse(renderVisualTree(root, "json"))).toEqual(root);
+  });
+});
@@ -0,0 +1,164 @@
+// Renderings of a route tree for RouteTree.toVisualTree: the box-drawing
+// text tree, JSON, Graphviz DOT and Mermaid flowcharts.
+
+import type { RouteSegmentKind } from "./RouteTree";
+
+export type VisualFormat = "text" | "json" | "dot" | "mermaid";
+
+export interface VisualTreeOptions {
+  // Defaults to "text"
+  format?: VisualFormat;
+  // Leave out param and mixed segments and everything below them
+  hideDynamic?: boolean;
+  // Leave out splat ($) segments
+  hideSplats?: boolean;
+}
+
+export interface VisualNode {
+  // The node's segment as shown in the tree, e.g. ":<id><int>" or "*"
+  segment: string;
+  // Route pattern of the node, e.g. "/users/:id<int>"
+  pattern: string;
+  kind: RouteSegmentKind;
+  // Whether a handler for every method or an index handler is registered
+  handler: boolean;
+  index: boolean;
+  // Methods with a handler of their own
+  methods: string[];
+  // Set for routes added with addLocalizedRoute: the node's locale and the
+  // route's path in each of its locales
+  locale?: string;
+  paths?: Record<string, string>;
+  children: VisualNode[];
+}
+
+export function renderVisualTree(
+  root: VisualNode,
+  format: VisualFormat = "text"
+): string {
+  switch (format) {
+    case "text":
+      return "Route Tree Structure:\n" + renderText(root, "", true, "");
+    case "json":
+      return JSON.stringify(root, null, 2);
+    case "dot":
+      return renderDot(root);
+    case "mermaid":
+      return renderMermaid(root);
+    default:
+      throw new Error(`Unknown visual tree format "${format}"`);
+  }
+}
+
+// Markers for the handlers of a node, e.g. " [✓] [GET, POST]"
+function handlerMarks(node: VisualNode): string {
+  let marks = "";
+  if (node.handler) {
+    marks += " [✓]";
+  }
+  if (node.index) {
+    marks += " [index]";
+  }
+  if (node.methods.length > 0) {
+    marks += ` [${node.methods.join(", ")}]`;
+  }
+  if (node.locale !== undefined) {
+    marks += ` [locale ${node.locale}]`;
+  }
+  return marks;
+}
+
+// Pairs of ids of the nodes of a localized route's paths in different
+// locales, each pair once
+function localeLinks(
+  nodes: Array<{ node: VisualNode; id: number }>
+): Array<[number, number]> {
+  const ids = new Map<string, number>();
+  nodes.forEach(({ node, id }) => ids.set(node.pattern, id));
+
+  const links: Array<[number, number]> = [];
+  for (const { node, id } of nodes) {
+    if (node.locale === undefined || !node.paths) continue;
+    // Linked from the node of the first locale to the others
+    const [first, ...others] = Object.keys(node.paths);
+    if (node.locale !== first) continue;
+    for (const locale of others) {
+      const other = ids.get(node.paths[locale]);
+      if (other !== undefined) links.push([id, other]);
+    }
+  }
+  return links;
+}
+
+function renderText(
+  node: VisualNode,
+  prefix: string,
+  isLast: boolean,
+  path: string
+): string {
+  const connector = isLast ? "└── " : "├── ";
+  const childPrefix = isLast ? "    " : "│   ";
+  let result = `${prefix}${connector}${path || "/"}${handlerMarks(node)}\n`;
+
+  node.children.forEach((child, index) => {
+    const childPath = path ? `${path}/${child.segment}` : `/${child.segment}`;
+    result += renderText(
+      child,
+      prefix + childPrefix,
+      index === node.children.length - 1,
+      childPath
+    );
+  });
+  return result;
+}
+
+// Nodes in depth-first order with their parent, numbered for graph ids
+function flatten(
+  root: VisualNode
+): Array<{ node: VisualNode; id: number; parent?: number }> {
+  const nodes: Array<{ node: VisualNode; id: number; parent?: number }> = [];
+  const visit = (node: VisualNode, parent?: number) => {
+    const id = nodes.length;
+    nodes.push({ node, id, parent });
+    node.children.forEach((child) => visit(child, id));
+  };
+  visit(root);
+  return nodes;
+}
+
+function graphLabel(node: VisualNode): string {
+  return (node.kind === "root" ? "/" : node.segment) + handlerMarks(node);
+}
+
+function renderDot(root: VisualNode): string {
+  const lines = ["digraph routes {", "  node [shape=box];"];
+  const nodes = flatten(root);
+  for (const { node, id, parent } of nodes) {
+    const label = graphLabel(node).replace(/[\\"]/g, "\\$&");
+    lines.push(`  n${id} [label="${label}"];`);
+    if (parent !== undefined) {
+      lines.push(`  n${parent} -> n${id};`);
+    }
+  }
+  for (const [from, to] of localeLinks(nodes)) {
+    lines.push(`  n${from} -> n${to} [style=dashed, dir=none];`);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+function renderMermaid(root: VisualNode): string {
+  const lines = ["flowchart TD"];
+  const nodes = flatten(root);
+  for (const { node, id, parent } of nodes) {
+    const label = graphLabel(node).replace(/"/g, "#quot;");
+    lines.push(`  n${id}["${label}"]`);
+    if (parent !== undefined) {
+      lines.push(`  n${parent} --> n${id}`);
+    }
+  }
+  for (const [from, to] of localeLinks(nodes)) {
+    lines.push(`  n${from} -.- n${to}`);
+  }
+  return lines.join("\n") + "\n";
+}